@@ -0,0 +1,263 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoToken from '../src/CognitoToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+import AuthStorageCache from '../src/AuthStorageCache';
+import AsyncStorageAdapter from '../src/AsyncStorageAdapter';
+import IndexedDBStorage from '../src/IndexedDBStorage';
+import ConfigurationError from '../src/ConfigurationError';
+import CognitoClientCredentials from '../src/CognitoClientCredentials';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+const createAccessToken = (username: string) => btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username, exp: Math.floor(Date.now() / 1000) + 3600, token_use: 'access', client_id: 'ClientId' }));
+
+const signIn = (cognitoAuth: CognitoAuth, username: string) => {
+    (cognitoAuth as any).signInUserSession = new CognitoAuthSession({
+        IdToken: new CognitoToken(),
+        AccessToken: new CognitoToken(createAccessToken(username)),
+        RefreshToken: new CognitoRefreshToken(`${username}RefreshToken`),
+        TokenScopes: new CognitoTokenScopes(authData.TokenScopesArray),
+    });
+    cognitoAuth.cacheTokensScopes();
+};
+
+// a store with the API of React Native AsyncStorage
+const createAsyncStorage = () => {
+    const items: { [key: string]: string } = {};
+    return {
+        items,
+        getItem: jest.fn((key: string) => Promise.resolve(key in items ? items[key] : null)),
+        setItem: jest.fn((key: string, value: string) => {
+            items[key] = value;
+            return Promise.resolve();
+        }),
+        removeItem: jest.fn((key: string) => {
+            delete items[key];
+            return Promise.resolve();
+        }),
+        getAllKeys: jest.fn(() => Promise.resolve(Object.keys(items))),
+    };
+};
+
+// a store with the API of Expo SecureStore
+const createSecureStore = () => {
+    const items: { [key: string]: string } = {};
+    return {
+        items,
+        getItemAsync: jest.fn((key: string) => Promise.resolve(key in items ? items[key] : null)),
+        setItemAsync: jest.fn((key: string, value: string) => {
+            if (!/^[\w.-]+$/.test(key)) {
+                return Promise.reject(new Error('Invalid key'));
+            }
+            items[key] = value;
+            return Promise.resolve();
+        }),
+        deleteItemAsync: jest.fn((key: string) => {
+            delete items[key];
+            return Promise.resolve();
+        }),
+    };
+};
+
+// a minimal in-memory IndexedDB, the requests complete asynchronously as in a browser
+const createIndexedDB = () => {
+    const databases: { [name: string]: { [store: string]: Map<string, any> } } = {};
+    const later = (callback: () => void) => setTimeout(callback);
+    return {
+        open: jest.fn((name: string) => {
+            const request: any = {};
+            later(() => {
+                const isNew = !databases[name];
+                databases[name] = databases[name] || {};
+                const stores = databases[name];
+                request.result = {
+                    createObjectStore: (store: string) => {
+                        stores[store] = new Map();
+                    },
+                    transaction: (store: string) => {
+                        const transaction: any = {
+                            objectStore: () => {
+                                const run = (operation: () => any) => {
+                                    const storeRequest: any = {};
+                                    later(() => {
+                                        storeRequest.result = operation();
+                                        transaction.oncomplete();
+                                    });
+                                    return storeRequest;
+                                };
+                                return {
+                                    get: (key: string) => run(() => stores[store].get(key)),
+                                    put: (value: any, key: string) => run(() => stores[store].set(key, value)),
+                                    delete: (key: string) => run(() => stores[store].delete(key)),
+                                    getAllKeys: () => run(() => Array.from(stores[store].keys())),
+                                };
+                            },
+                        };
+                        return transaction;
+                    },
+                };
+                if (isNew) {
+                    request.onupgradeneeded();
+                }
+                request.onsuccess();
+            });
+            return request;
+        }),
+    };
+};
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+it('test constructor rejects an asynchronous storage', function (done) {
+    expect(() => new CognitoAuth({ ...authData, Storage: new AsyncStorageAdapter(createAsyncStorage()) }))
+        .toThrow(ConfigurationError);
+    done();
+});
+
+it('test rejected storage probe handled', function () {
+    const unhandledRejection = jest.fn();
+    process.on('unhandledRejection', unhandledRejection);
+    const storage = {
+        getItem: jest.fn(() => Promise.reject(new Error('locked'))),
+        setItem: jest.fn(),
+        removeItem: jest.fn(),
+    };
+    expect(() => new CognitoAuth({ ...authData, Storage: storage })).toThrow(ConfigurationError);
+    return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+        process.removeListener('unhandledRejection', unhandledRejection);
+        expect(unhandledRejection).not.toBeCalled();
+    });
+});
+
+it('test create with a synchronous storage', function () {
+    signIn(new CognitoAuth(authData), 'alice');
+    return CognitoAuth.create({ ...authData, Storage: localStorage }).then(cognitoAuth => {
+        expect(cognitoAuth.storage).toBe(localStorage);
+        expect(cognitoAuth.getUsername()).toEqual('alice');
+    });
+});
+
+it('test create restores the session from AsyncStorage', function () {
+    const asyncStorage = createAsyncStorage();
+    const storage = new AsyncStorageAdapter(asyncStorage);
+    return CognitoAuth.create({ ...authData, Storage: storage }).then(cognitoAuth => {
+        expect(cognitoAuth.storage).toBeInstanceOf(AuthStorageCache);
+        expect(cognitoAuth.getUsername()).toBeUndefined();
+        signIn(cognitoAuth, 'alice');
+        return (cognitoAuth.storage as AuthStorageCache).flush();
+    }).then(() => {
+        expect(asyncStorage.items['CognitoIdentityServiceProvider.ClientId.LastAuthUser']).toEqual('alice');
+        return CognitoAuth.create({ ...authData, Storage: storage });
+    }).then(cognitoAuth => {
+        expect(asyncStorage.getAllKeys).toBeCalled();
+        expect(cognitoAuth.getUsername()).toEqual('alice');
+        expect(cognitoAuth.isUserSignedIn()).toBeTruthy();
+        expect(cognitoAuth.getSignInUserSession().getRefreshToken().getToken()).toEqual('aliceRefreshToken');
+    });
+});
+
+it('test create restores the sessions from SecureStore', function () {
+    const secureStore = createSecureStore();
+    const storage = new AsyncStorageAdapter(secureStore);
+    return CognitoAuth.create({ ...authData, Storage: storage }).then(cognitoAuth => {
+        signIn(cognitoAuth, 'alice@example.com');
+        signIn(cognitoAuth, 'bob');
+        return (cognitoAuth.storage as AuthStorageCache).flush();
+    }).then(() => {
+        expect(Object.keys(secureStore.items)).toContain('CognitoIdentityServiceProvider.ClientId.alice_40_example.com.accessToken');
+        return CognitoAuth.create({ ...authData, Storage: storage });
+    }).then(cognitoAuth => {
+        expect(cognitoAuth.getCachedUsers()).toEqual(['alice@example.com', 'bob']);
+        expect(cognitoAuth.getUsername()).toEqual('bob');
+        expect(cognitoAuth.switchUser('alice@example.com').getRefreshToken().getToken())
+            .toEqual('alice@example.comRefreshToken');
+    });
+});
+
+it('test storage cache writes in order', function () {
+    const asyncStorage = createAsyncStorage();
+    const storageCache = new AuthStorageCache(asyncStorage);
+    storageCache.setItem('key', 'first');
+    storageCache.setItem('key', 'second');
+    storageCache.removeItem('other');
+    expect(storageCache.getItem('key')).toEqual('second');
+    expect(storageCache.getItem('other')).toBeNull();
+    return storageCache.flush().then(() => {
+        expect(asyncStorage.items.key).toEqual('second');
+        expect(asyncStorage.setItem).toHaveBeenCalledTimes(2);
+    });
+});
+
+it('test storage cache reports a failed write', function () {
+    const asyncStorage = createAsyncStorage();
+    asyncStorage.setItem.mockImplementationOnce(() => Promise.reject(new Error('quota')));
+    const storageCache = new AuthStorageCache(asyncStorage);
+    storageCache.setItem('key', 'value');
+    storageCache.setItem('other', 'value');
+    return storageCache.flush().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual('quota');
+        expect(asyncStorage.items.other).toEqual('value');
+        return storageCache.flush();
+    });
+});
+
+it('test IndexedDBStorage', function () {
+    (window as any).indexedDB = createIndexedDB();
+    const storage = new IndexedDBStorage();
+    return storage.setItem('key', 'value').then(() => storage.getItem('key')).then(value => {
+        expect(value).toEqual('value');
+        return storage.getAllKeys();
+    }).then(keys => {
+        expect(keys).toEqual(['key']);
+        return storage.removeItem('key');
+    }).then(() => storage.getItem('key')).then(value => {
+        expect(value).toBeUndefined();
+        expect((window as any).indexedDB.open).toHaveBeenCalledTimes(1);
+        expect((window as any).indexedDB.open).toBeCalledWith('amazon-cognito-auth', 1);
+        delete (window as any).indexedDB;
+    });
+});
+
+it('test IndexedDBStorage unavailable', function () {
+    return new IndexedDBStorage().getItem('key').then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(ConfigurationError);
+    });
+});
+
+it('test client credentials with an asynchronous storage', function () {
+    const asyncStorage = createAsyncStorage();
+    const accessToken = createAccessToken('ClientId');
+    asyncStorage.items['CognitoClientCredentials.ClientId.'] = JSON.stringify({
+        accessToken,
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    });
+    const httpClient = { request: jest.fn() };
+    const clientCredentials = new CognitoClientCredentials({
+        ClientId: 'ClientId',
+        ClientSecret: 'ClientSecret',
+        AppWebDomain: 'localhost:3000',
+        Storage: new AsyncStorageAdapter(asyncStorage),
+        HttpClient: httpClient,
+        AllowClientSecretInBrowser: true,
+    });
+    return clientCredentials.getAccessToken().then(token => {
+        expect(token.getJwtToken()).toEqual(accessToken);
+        expect(httpClient.request).not.toBeCalled();
+    });
+});
@@ -0,0 +1,111 @@
+import CognitoAuth from '../src/CognitoAuth';
+import ConfigurationError from '../src/ConfigurationError';
+import { removeCallbackParameters } from '../src/CallbackHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost/callback",
+    RedirectUriSignOut: "http://localhost/",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({
+        username: 'prova', exp: Math.floor(Date.now() / 1000) + 3600, token_use: 'access', client_id: 'ClientId',
+    }));
+
+const callbackUrl = `http://localhost/callback?page=2#state=state&access_token=${jwtToken}&token_type=Bearer&expires_in=3600`;
+
+const createCognitoAuth = () => {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    return cognitoAuth;
+};
+
+beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+});
+
+it('test isCallbackUrl', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    expect(cognitoAuth.isCallbackUrl(callbackUrl)).toBeTruthy();
+    expect(cognitoAuth.isCallbackUrl('http://localhost/callback/?code=code&state=state')).toBeTruthy();
+    expect(cognitoAuth.isCallbackUrl('http://localhost/callback?error=access_denied')).toBeTruthy();
+    expect(cognitoAuth.isCallbackUrl('http://localhost/callback?page=2')).toBeFalsy();
+    expect(cognitoAuth.isCallbackUrl('http://localhost/other?code=code')).toBeFalsy();
+    expect(cognitoAuth.isCallbackUrl()).toBeFalsy();
+    window.history.replaceState(null, '', '/callback?code=code&state=state');
+    expect(cognitoAuth.isCallbackUrl()).toBeTruthy();
+});
+
+it('test removeCallbackParameters', function () {
+    expect(removeCallbackParameters(callbackUrl)).toEqual('http://localhost/callback?page=2');
+    expect(removeCallbackParameters('http://localhost/callback?code=code&state=state&lang=fr#top'))
+        .toEqual('http://localhost/callback?lang=fr#top');
+});
+
+it('test handleRedirectCallback', function () {
+    const cognitoAuth = createCognitoAuth();
+    window.history.replaceState(null, '', callbackUrl);
+    return cognitoAuth.handleRedirectCallback().then(session => {
+        expect(session.getAccessToken().getJwtToken()).toEqual(jwtToken);
+        expect(window.location.href).toEqual('http://localhost/callback?page=2');
+    });
+});
+
+it('test handleRedirectCallback restores the return path', function () {
+    const cognitoAuth = createCognitoAuth();
+    cognitoAuth.setReturnPath('/orders?status=open');
+    window.history.replaceState(null, '', callbackUrl);
+    return cognitoAuth.handleRedirectCallback().then(() => {
+        expect(window.location.href).toEqual('http://localhost/orders?status=open');
+        expect(localStorage.getItem('CognitoIdentityServiceProvider.ClientId.returnPath')).toBeNull();
+    });
+});
+
+it('test return path of another origin', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    expect(() => cognitoAuth.setReturnPath('//evil.example.com/')).toThrow(ConfigurationError);
+    expect(() => cognitoAuth.setReturnPath('https://evil.example.com/')).toThrow(ConfigurationError);
+});
+
+it('test callback processed once', function () {
+    const cognitoAuth = createCognitoAuth();
+    const first = cognitoAuth.handleRedirectCallback(callbackUrl);
+    expect(cognitoAuth.handleRedirectCallback(callbackUrl)).toBe(first);
+    return first.then(session => {
+        // the page is reloaded with the same callback url
+        const reloaded = new CognitoAuth(authData);
+        const callbackError = jest.fn();
+        reloaded.on('callbackError', callbackError);
+        return reloaded.handleRedirectCallback(callbackUrl).then(result => {
+            expect(callbackError).not.toBeCalled();
+            expect(result.getAccessToken().getJwtToken()).toEqual(session.getAccessToken().getJwtToken());
+        });
+    });
+});
+
+it('test handleRedirectCallback error', function () {
+    const cognitoAuth = createCognitoAuth();
+    window.history.replaceState(null, '', '/callback?page=2#error=access_denied&state=state');
+    return cognitoAuth.handleRedirectCallback().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.code).toEqual('access_denied');
+        expect(window.location.href).toEqual('http://localhost/callback?page=2');
+    });
+});
+
+it('test handleRedirectCallback without callback', function () {
+    window.history.replaceState(null, '', '/callback?page=2');
+    return new CognitoAuth(authData).handleRedirectCallback().then(session => {
+        expect(session).toBeNull();
+        expect(window.location.href).toEqual('http://localhost/callback?page=2');
+    });
+});
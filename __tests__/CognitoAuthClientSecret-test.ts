@@ -0,0 +1,59 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoConstants from '../src/CognitoConstants';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+    ClientSecret: "ClientSecret",
+    AllowClientSecretInBrowser: true,
+};
+
+const createCognitoAuth = (options: any = {}) => {
+    const httpClient = { request: jest.fn(() => Promise.resolve({ status: 200, body: '' })) };
+    const cognitoAuth = new CognitoAuth({ ...authData, ...options, HttpClient: httpClient }, false);
+    return { cognitoAuth, httpClient };
+};
+
+it('test client_secret_basic', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth();
+    return cognitoAuth.revokeRefreshToken('refreshToken').then(() => {
+        const request = (httpClient.request.mock.calls[0] as any)[0];
+        expect(request.headers).toEqual({
+            ...CognitoConstants.HEADER,
+            Authorization: 'Basic ' + btoa('ClientId:ClientSecret'),
+        });
+        expect(request.body).toEqual('token=refreshToken&client_id=ClientId');
+    });
+});
+
+it('test client_secret_post', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth({ ClientAuthMethod: 'client_secret_post' });
+    return cognitoAuth.revokeRefreshToken('refreshToken').then(() => {
+        const request = (httpClient.request.mock.calls[0] as any)[0];
+        expect(request.headers).toEqual(CognitoConstants.HEADER);
+        expect(request.body).toEqual('token=refreshToken&client_id=ClientId&client_secret=ClientSecret');
+    });
+});
+
+it('test no client secret', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth({ ClientSecret: undefined });
+    return cognitoAuth.revokeRefreshToken('refreshToken').then(() => {
+        const request = (httpClient.request.mock.calls[0] as any)[0];
+        expect(request.headers).toEqual(CognitoConstants.HEADER);
+        expect(request.body).toEqual('token=refreshToken&client_id=ClientId');
+    });
+});
+
+it('test client secret refused in a browser', function () {
+    expect(() => createCognitoAuth({ AllowClientSecretInBrowser: false }))
+        .toThrow(CognitoConstants.CLIENTSECRETBROWSERERROR);
+});
+
+it('test unknown client authentication method', function () {
+    expect(() => createCognitoAuth({ ClientAuthMethod: 'private_key_jwt' }))
+        .toThrow(CognitoConstants.CLIENTAUTHMETHODERROR);
+});
@@ -0,0 +1,149 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoConstants from '../src/CognitoConstants';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoToken from '../src/CognitoToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+import { getOpenIdConfigurationUrl } from '../src/CognitoOpenIdConfiguration';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const openIdConfiguration = {
+    issuer: 'http://localhost:9229/local_pool',
+    authorization_endpoint: 'http://localhost:9229/oauth2/authorize',
+    token_endpoint: 'http://localhost:9229/oauth2/token',
+    userinfo_endpoint: 'http://localhost:9229/oauth2/userInfo',
+    revocation_endpoint: 'http://localhost:9229/oauth2/revoke',
+    jwks_uri: 'http://localhost:9229/local_pool/.well-known/jwks.json',
+};
+
+const createCognitoAuth = (Discovery: any, options: any = {}, configuration: any = openIdConfiguration) => {
+    const httpClient = {
+        request: jest.fn(({ url }) => Promise.resolve({
+            status: 200,
+            body: url.indexOf('openid-configuration') >= 0 ? JSON.stringify(configuration) : '',
+        })),
+    };
+    const launchUri = jest.fn();
+    const cognitoAuth = new CognitoAuth({ ...authData, ...options, Discovery, HttpClient: httpClient, LaunchUri: launchUri });
+    (cognitoAuth as any).signInUserSession.setRefreshToken(new CognitoRefreshToken('refreshToken'));
+    return { cognitoAuth, httpClient, launchUri };
+};
+
+it('test getOpenIdConfigurationUrl', function () {
+    expect(getOpenIdConfigurationUrl('https://issuer/pool/'))
+        .toEqual('https://issuer/pool/.well-known/openid-configuration');
+    expect(getOpenIdConfigurationUrl('https://issuer/pool/.well-known/openid-configuration'))
+        .toEqual('https://issuer/pool/.well-known/openid-configuration');
+});
+
+it('test discovery from an url', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth('http://localhost:9229/local_pool');
+    return cognitoAuth.revokeRefreshToken().then(() => cognitoAuth.revokeRefreshToken()).then(() => {
+        const urls = httpClient.request.mock.calls.map((call: any) => call[0].url);
+        expect(urls).toEqual([
+            'http://localhost:9229/local_pool/.well-known/openid-configuration',
+            'http://localhost:9229/oauth2/revoke',
+            'http://localhost:9229/oauth2/revoke',
+        ]);
+        expect(cognitoAuth.getSessionValidationOptions().Issuer).toEqual(openIdConfiguration.issuer);
+    });
+});
+
+it('test discovery from the user pool issuer', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth(true, { UserPoolId: 'us-east-1_pool' });
+    return cognitoAuth.loadOpenIdConfiguration().then(() => {
+        expect(httpClient.request.mock.calls[0][0].url)
+            .toEqual('https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool/.well-known/openid-configuration');
+        expect(cognitoAuth.getJwksUri()).toEqual(openIdConfiguration.jwks_uri);
+    });
+});
+
+it('test discovery from the user pool issuer requires the UserPoolId', function () {
+    expect(() => createCognitoAuth(true)).toThrow(CognitoConstants.DISCOVERYPARAMETERERROR);
+});
+
+it('test offline discovery document', function () {
+    const { cognitoAuth, httpClient, launchUri } = createCognitoAuth(openIdConfiguration);
+    expect(cognitoAuth.getFQDNSignIn()).toMatch(/^http:\/\/localhost:9229\/oauth2\/authorize\?redirect_uri=/);
+    return cognitoAuth.getSession().then(() => {
+        expect(launchUri.mock.calls[0][0]).toMatch(/^http:\/\/localhost:9229\/oauth2\/authorize\?/);
+        expect(httpClient.request).not.toBeCalled();
+    });
+});
+
+it('test invalid discovery document', function () {
+    const httpClient = { request: jest.fn(() => Promise.resolve({ status: 200, body: '{}' })) };
+    const cognitoAuth = new CognitoAuth({ ...authData, Discovery: 'http://localhost:9229', HttpClient: httpClient });
+    return cognitoAuth.loadOpenIdConfiguration().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.DISCOVERYERROR);
+    });
+});
+
+it('test sign out on the custom domain of the discovery document', function () {
+    const customDomainConfiguration = {
+        ...openIdConfiguration,
+        authorization_endpoint: 'https://auth.example.com/oauth2/authorize',
+        revocation_endpoint: 'https://auth.example.com/oauth2/revoke',
+    };
+    const { cognitoAuth, launchUri } = createCognitoAuth('https://auth.example.com', {}, customDomainConfiguration);
+    return cognitoAuth.signOut().then(() => {
+        expect(launchUri).toBeCalledWith(
+            'https://auth.example.com/logout?logout_uri=http%3A%2F%2Flocalhost%3A3000&client_id=ClientId');
+    });
+});
+
+it('test sign out on the end_session_endpoint', function () {
+    const { cognitoAuth } = createCognitoAuth({
+        ...openIdConfiguration,
+        end_session_endpoint: 'https://auth.example.com/signout',
+    });
+    expect(cognitoAuth.getFQDNSignOut()).toMatch(/^https:\/\/auth\.example\.com\/signout\?logout_uri=/);
+});
+
+it('test session of an issuer other than a Cognito user pool', function () {
+    const issuer = 'https://idp.example.com';
+    const { cognitoAuth } = createCognitoAuth({ ...openIdConfiguration, issuer });
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    const createToken = (payload: object) => new CognitoToken(
+        btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload)));
+    // no token_use, client_id nor username claims
+    const idPayload = { sub: 'subject', aud: 'ClientId', iss: issuer, exp };
+    const accessPayload = { sub: 'subject', aud: 'https://api.example.com', scope: 'openid', iss: issuer, exp };
+    (cognitoAuth as any).signInUserSession = new CognitoAuthSession({
+        IdToken: createToken(idPayload),
+        AccessToken: createToken(accessPayload),
+        RefreshToken: new CognitoRefreshToken('refreshToken'),
+        TokenScopes: new CognitoTokenScopes(),
+    });
+    cognitoAuth.cacheTokensScopes();
+    expect(cognitoAuth.getUsername()).toEqual('subject');
+    const options = cognitoAuth.getSessionValidationOptions();
+    expect(cognitoAuth.getCachedSession('subject').validate(options)).toEqual({ valid: true });
+
+    const withoutSub = new CognitoAuthSession({
+        IdToken: createToken({ ...idPayload, sub: undefined }),
+        AccessToken: createToken(accessPayload),
+    });
+    expect(withoutSub.validate(options)).toEqual({ valid: false, reason: 'invalidToken', token: 'id' });
+    const otherAudience = new CognitoAuthSession({
+        IdToken: createToken({ ...idPayload, aud: 'OtherClientId' }),
+        AccessToken: createToken(accessPayload),
+    });
+    expect(otherAudience.validate(options)).toEqual({ valid: false, reason: 'invalidAudience', token: 'id' });
+    // the Cognito claims are still required for a user pool issuer
+    expect(cognitoAuth.getCachedSession('subject').validate({
+        ...options, Issuer: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool',
+    })).toEqual({ valid: false, reason: 'invalidTokenUse', token: 'access' });
+});
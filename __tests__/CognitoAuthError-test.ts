@@ -0,0 +1,94 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthError from '../src/CognitoAuthError';
+import CognitoConstants from '../src/CognitoConstants';
+import ConfigurationError from '../src/ConfigurationError';
+import OAuthError from '../src/OAuthError';
+import StateMismatchError from '../src/StateMismatchError';
+import TokenValidationError from '../src/TokenValidationError';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username: 'prova', exp: (Date.now() + 100) }));
+
+it('test error hierarchy', function () {
+    const error = new OAuthError({ code: 'access_denied', description: 'User cancelled', status: 400 });
+    expect(error).toBeInstanceOf(CognitoAuthError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toEqual('OAuthError');
+    expect(error.message).toEqual('User cancelled');
+    expect(new StateMismatchError()).toBeInstanceOf(CognitoAuthError);
+    expect(new TokenValidationError('invalid')).toBeInstanceOf(CognitoAuthError);
+});
+
+it('test OAuth error of the code callback', function () {
+    const cognitoAuth = new CognitoAuth(authData, false);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = 'http://localhost:3000/?error_description=User+cancelled%21&state=state&error=access_denied';
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(OAuthError);
+        expect(e.code).toEqual('access_denied');
+        expect(e.description).toEqual('User cancelled!');
+        expect(e.response).toEqual({ error: 'access_denied', error_description: 'User cancelled!', state: 'state' });
+    });
+});
+
+it('test OAuth error of the token callback', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = `http://localhost:3000#state=state&error=unauthorized_client&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(OAuthError);
+        expect(e.code).toEqual('unauthorized_client');
+    });
+});
+
+it('test OAuth error of the refresh request', function () {
+    const httpClient = {
+        request: jest.fn(() => Promise.resolve({ status: 400, body: JSON.stringify({ error: 'invalid_grant' }) })),
+    };
+    const cognitoAuth = new CognitoAuth({ ...authData, HttpClient: httpClient });
+    cognitoAuth.useCodeGrantFlow();
+    const refreshFailed = jest.fn();
+    cognitoAuth.on('refreshFailed', refreshFailed);
+    return cognitoAuth.refreshSession('refreshToken').then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(OAuthError);
+        expect(e.code).toEqual('invalid_grant');
+        expect(refreshFailed).toBeCalledWith(e);
+    });
+});
+
+it('test nonce error', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = `http://localhost:3000#state=state&id_token=${jwtToken}&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(TokenValidationError);
+    });
+});
+
+it('test configuration error', function () {
+    expect(() => new CognitoAuth({ ...authData, ClientId: undefined })).toThrow(ConfigurationError);
+    expect(() => new CognitoAuth({ ...authData, VerifyTokenSignature: true }))
+        .toThrow(CognitoConstants.JWKSPARAMETERERROR);
+});
@@ -0,0 +1,164 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthEventEmitter from '../src/CognitoAuthEventEmitter';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoToken from '../src/CognitoToken';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+import CognitoConstants from '../src/CognitoConstants';
+import ConfigurationError from '../src/ConfigurationError';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const payload = { username: 'prova', exp: (Date.now() + 100), token_use: 'access' };
+
+const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload))
+
+const expiredJwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username: 'prova', exp: 1, token_use: 'access' }));
+
+const createCognitoAuth = () => {
+    const launchUri = jest.fn();
+    const cognitoAuth = new CognitoAuth({ ...authData, LaunchUri: launchUri });
+    return { cognitoAuth, launchUri };
+};
+
+it('test emitter on, once and off', function () {
+    const emitter = new CognitoAuthEventEmitter<{ ping: number }>();
+    const onListener = jest.fn();
+    const onceListener = jest.fn();
+    const unsubscribe = emitter.on('ping', onListener);
+    emitter.once('ping', onceListener);
+    emitter.emit('ping', 1);
+    emitter.emit('ping', 2);
+    unsubscribe();
+    emitter.emit('ping', 3);
+    expect(onListener.mock.calls).toEqual([[1], [2]]);
+    expect(onceListener.mock.calls).toEqual([[1]]);
+});
+
+it('test emitter off removes a once listener', function () {
+    const emitter = new CognitoAuthEventEmitter<{ ping: number }>();
+    const onceListener = jest.fn();
+    const onListener = jest.fn();
+    emitter.once('ping', onceListener);
+    emitter.on('ping', onListener);
+    emitter.off('ping', onceListener);
+    emitter.emit('ping', 1);
+    expect(onceListener).not.toBeCalled();
+    expect(onListener).toBeCalledWith(1);
+});
+
+it('test emitter isolates failing listeners', function () {
+    jest.useFakeTimers();
+    const emitter = new CognitoAuthEventEmitter<{ ping: number }>();
+    const listener = jest.fn();
+    emitter.on('ping', () => {
+        throw new Error('listener error');
+    });
+    emitter.on('ping', listener);
+    emitter.emit('ping', 1);
+    expect(listener).toBeCalledWith(1);
+    expect(() => jest.runOnlyPendingTimers()).toThrow('listener error');
+    jest.useRealTimers();
+});
+
+it('test signedIn and redirecting', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const signedIn = jest.fn();
+    const redirecting = jest.fn();
+    cognitoAuth.on('signedIn', signedIn);
+    cognitoAuth.on('redirecting', redirecting);
+    cognitoAuth.setState('state');
+    return cognitoAuth.getSession().then(() => {
+        expect(redirecting).toBeCalledWith(expect.stringContaining('https://localhost:3000/oauth2/authorize'));
+        return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=state&access_token=${jwtToken}`);
+    }).then(session => {
+        expect(signedIn).toHaveBeenCalledTimes(1);
+        expect(signedIn).toBeCalledWith(session);
+    });
+});
+
+it('test signedIn not emitted for the cached session', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const signedIn = jest.fn();
+    const onSuccess = jest.fn();
+    const validJwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+        btoa(JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + 3600, client_id: 'ClientId' }));
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=state&access_token=${validJwtToken}`).then(session => {
+        cognitoAuth.on('signedIn', signedIn);
+        cognitoAuth.userhandler = { onSuccess, onFailure: jest.fn() };
+        return cognitoAuth.getSession().then(() => cognitoAuth.getSession()).then(result => {
+            expect(result).toBe(session);
+            expect(signedIn).not.toBeCalled();
+            expect(onSuccess).toHaveBeenCalledTimes(2);
+        });
+    });
+});
+
+it('test callbackError', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const callbackError = jest.fn();
+    cognitoAuth.on('callbackError', callbackError);
+    cognitoAuth.getFQDNSignIn();
+    return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=forged&access_token=${jwtToken}`).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(callbackError).toBeCalledWith(e);
+    });
+});
+
+it('test sessionExpired and refreshFailed', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const sessionExpired = jest.fn();
+    const refreshFailed = jest.fn();
+    cognitoAuth.on('sessionExpired', sessionExpired);
+    cognitoAuth.on('refreshFailed', refreshFailed);
+    const session = new CognitoAuthSession();
+    session.setAccessToken(new CognitoToken(expiredJwtToken));
+    session.setRefreshToken(new CognitoRefreshToken('refreshToken'));
+    session.setTokenScopes(new CognitoTokenScopes(authData.TokenScopesArray));
+    (cognitoAuth as any).signInUserSession = session;
+    cognitoAuth.getCachedSession = () => session;
+    return cognitoAuth.getSession().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(ConfigurationError);
+        expect(e.message).toEqual(CognitoConstants.REFRESHTYPEERROR);
+        expect(sessionExpired).toBeCalledWith({ valid: false, reason: 'expired', token: 'access' });
+        expect(refreshFailed).toBeCalledWith(e);
+    });
+});
+
+it('test signedOut', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const signedOut = jest.fn();
+    cognitoAuth.on('signedOut', signedOut);
+    return cognitoAuth.signOut('local').then(() => {
+        expect(signedOut).toHaveBeenCalledTimes(1);
+    });
+});
+
+it('test userhandler adapter', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    cognitoAuth.userhandler = {
+        onSuccess: jest.fn(),
+        onFailure: jest.fn(),
+    };
+    cognitoAuth.getFQDNSignIn();
+    return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=forged&access_token=${jwtToken}`).then(result => {
+        expect(result).toBeUndefined();
+        expect(cognitoAuth.userhandler.onFailure).toHaveBeenCalledTimes(1);
+        expect(cognitoAuth.userhandler.onSuccess).not.toBeCalled();
+    });
+});
@@ -0,0 +1,98 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoConstants from '../src/CognitoConstants';
+import { createCodeChallenge } from '../src/PKCEHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(global as any).open = jest.fn();
+
+const payload = { username: 'prova', exp: (Date.now() + 100), nonce: 'nonce' };
+
+const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload))
+
+const response = {
+    id_token: jwtToken,
+    access_token: jwtToken,
+    refresh_token: jwtToken,
+}
+
+const mockXHR = {
+    open: jest.fn(),
+    send: jest.fn(),
+    onreadystatechange: jest.fn(),
+    readyState: 4,
+    responseText: JSON.stringify(response),
+    statusText: "OK",
+    status: 200,
+    setRequestHeader: jest.fn(),
+    [CognitoConstants.WITHCREDENTIALS]: CognitoConstants.WITHCREDENTIALS
+};
+(window as any).XMLHttpRequest = jest.fn(() => mockXHR);
+
+const webcrypto = require('crypto').webcrypto;
+const codeVerifierKey = 'CognitoIdentityServiceProvider.ClientId.codeVerifier';
+
+afterEach(() => {
+    (window as any).crypto = undefined;
+});
+
+it('test S256 code challenge', function () {
+    (window as any).crypto = webcrypto;
+    // RFC 7636 Appendix B
+    return createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk').then(result => {
+        expect(result.codeChallenge).toEqual('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+        expect(result.codeChallengeMethod).toEqual('S256');
+    });
+});
+
+it('test code challenge without SubtleCrypto', function () {
+    return createCodeChallenge('verifier').then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.PKCEERROR);
+    });
+});
+
+it('test plain code challenge fallback', function () {
+    (window as any).crypto = { getRandomValues: webcrypto.getRandomValues.bind(webcrypto) };
+    const cognitoAuth = new CognitoAuth({ ...authData, AllowPlainCodeChallenge: true }, false);
+    return cognitoAuth.prepareFQDNSignIn().then(url => {
+        const verifier = localStorage.getItem(codeVerifierKey);
+        expect(url).toContain(`&code_challenge=${verifier}&code_challenge_method=plain`);
+    });
+});
+
+it('test implicit flow sends no code challenge', function () {
+    (window as any).crypto = webcrypto;
+    const cognitoAuth = new CognitoAuth(authData);
+    return cognitoAuth.prepareFQDNSignIn().then(url => {
+        expect(url).not.toContain('code_challenge');
+    });
+});
+
+it('test code verifier sent and cleared', function (done) {
+    (window as any).crypto = webcrypto;
+    const cognitoAuth = new CognitoAuth(authData, false);
+    cognitoAuth.setState('state');
+    cognitoAuth.setNonce('nonce');
+    cognitoAuth.prepareFQDNSignIn().then(url => {
+        expect(url).toContain(`&code_challenge=${cognitoAuth.codeChallenge}&code_challenge_method=S256`);
+        const verifier = localStorage.getItem(codeVerifierKey);
+        expect(verifier).toHaveLength(CognitoConstants.CODEVERIFIERLENGTH);
+
+        const result = cognitoAuth.parseCognitoWebResponse("http://localhost:3000/?code=code&state=state");
+        (mockXHR as any).onreadystatechange();
+        return result.then(() => {
+            expect(mockXHR.send).toHaveBeenLastCalledWith(expect.stringContaining(`code_verifier=${verifier}`));
+            expect(localStorage.getItem(codeVerifierKey)).toBeNull();
+            done();
+        });
+    });
+});
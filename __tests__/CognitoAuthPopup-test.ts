@@ -0,0 +1,115 @@
+import CognitoAuth from '../src/CognitoAuth';
+import PopupError from '../src/PopupError';
+import { handlePopupCallback } from '../src/PopupHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000/callback",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const stateKey = 'CognitoIdentityServiceProvider.ClientId.oauthState';
+
+const accessToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username: 'alice', exp: Math.floor(Date.now() / 1000) + 3600, token_use: 'access', client_id: 'ClientId' }));
+
+const createPopup = () => ({ location: { href: '' }, closed: false, close: jest.fn() });
+
+const postFromPopup = (popup: any, data: any, origin = 'http://localhost:3000') => {
+    const event = new MessageEvent('message', { data, origin });
+    Object.defineProperty(event, 'source', { value: popup });
+    window.dispatchEvent(event);
+};
+
+const waitFor = (condition: () => boolean) => new Promise(resolve => {
+    const check = () => condition() ? resolve() : setTimeout(check, 5);
+    check();
+});
+
+const originalOpen = window.open;
+
+afterEach(() => {
+    window.open = originalOpen;
+});
+
+it('test signInWithPopup', function () {
+    const popup = createPopup();
+    window.open = jest.fn(() => popup as any);
+    const cognitoAuth = new CognitoAuth(authData);
+    const redirecting = jest.fn();
+    cognitoAuth.on('redirecting', redirecting);
+    const result = cognitoAuth.signInWithPopup();
+    expect(window.open).toBeCalledWith('', 'CognitoAuthSignIn', expect.any(String));
+    return waitFor(() => popup.location.href !== '').then(() => {
+        expect(popup.location.href).toEqual(cognitoAuth.getFQDNSignIn());
+        expect(redirecting).toBeCalledWith(popup.location.href);
+        const state = localStorage.getItem(stateKey);
+        const url = `http://localhost:3000/callback#state=${state}&access_token=${accessToken}`;
+        // messages from another origin or another window are ignored
+        postFromPopup(popup, { type: 'CognitoAuthCallback', url: 'http://localhost:3000/callback#state=forged' }, 'https://evil.example.com');
+        postFromPopup({}, { type: 'CognitoAuthCallback', url: 'http://localhost:3000/callback#state=forged' });
+        postFromPopup(popup, { type: 'CognitoAuthCallback', url });
+        return result;
+    }).then(session => {
+        expect(session.getAccessToken().getJwtToken()).toEqual(accessToken);
+        expect(cognitoAuth.getSignInUserSession()).toBe(session);
+        expect(popup.close).toBeCalled();
+    });
+});
+
+it('test signInWithPopup blocked', function () {
+    window.open = jest.fn(() => null);
+    return new CognitoAuth(authData).signInWithPopup().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(PopupError);
+        expect(e.code).toEqual('popup_blocked');
+    });
+});
+
+it('test signInWithPopup closed by the user', function () {
+    const popup = createPopup();
+    window.open = jest.fn(() => popup as any);
+    const result = new CognitoAuth(authData).signInWithPopup();
+    return waitFor(() => popup.location.href !== '').then(() => {
+        popup.closed = true;
+        return result;
+    }).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(PopupError);
+        expect(e.code).toEqual('popup_closed');
+    });
+});
+
+it('test signInWithPopup timeout', function () {
+    const popup = createPopup();
+    window.open = jest.fn(() => popup as any);
+    const result = new CognitoAuth(authData).signInWithPopup({ Timeout: 50 });
+    return result.then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(PopupError);
+        expect(e.code).toEqual('popup_timeout');
+        expect(popup.close).toBeCalled();
+    });
+});
+
+it('test handlePopupCallback', function () {
+    const opener = { postMessage: jest.fn() };
+    const close = jest.spyOn(window, 'close').mockImplementation(() => undefined);
+    expect(handlePopupCallback('http://localhost/callback?code=code')).toBeFalsy();
+    Object.defineProperty(window, 'opener', { value: opener, configurable: true });
+    window.name = 'CognitoAuthSignIn';
+    expect(handlePopupCallback('http://localhost/callback?code=code')).toBeTruthy();
+    expect(opener.postMessage).toBeCalledWith({ type: 'CognitoAuthCallback', url: 'http://localhost/callback?code=code' },
+        window.location.origin);
+    expect(close).toBeCalled();
+    window.name = '';
+    close.mockRestore();
+});
@@ -12,16 +12,24 @@ const authData: any = {
     UserPoolId: "UserPoolId",
 };
 const cognitoAuth: CognitoAuth = new CognitoAuth(authData, false);
+cognitoAuth.setState('state');
+cognitoAuth.setNonce('nonce');
 
 
 (global as any).open = jest.fn();
 
-const payload = { username: 'prova', exp: (Date.now() + 100) };
+const issuer = 'https://cognito-idp.UserPoolId.amazonaws.com/UserPoolId';
+
+const payload = { username: 'prova', exp: (Date.now() + 100), token_use: 'access', client_id: 'ClientId', iss: issuer };
 
 const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload))
 
+const idPayload = { 'cognito:username': 'prova', exp: (Date.now() + 100), token_use: 'id', aud: 'ClientId', iss: issuer, nonce: 'nonce' };
+
+const idJwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(idPayload))
+
 const response = {
-    id_token: jwtToken,
+    id_token: idJwtToken,
     access_token: jwtToken,
     refresh_token: jwtToken,
 }
@@ -42,14 +50,15 @@ const oldXMLHttpRequest = (window as any).XMLHttpRequest;
 
 //(window as any).open = jest.fn();
 //const open = jest.fn()
-Object.defineProperty(window, 'open', jest.fn());
+(window as any).crypto = require('crypto').webcrypto;
 
 it('test getSession login', function (done) {
 
-    cognitoAuth.getSession();
+    cognitoAuth.getSession().then(() => {
+        expect((global as any).open).toBeCalled();
+        done();
+    });
     (mockXHR as any).onreadystatechange();
-    expect((global as any).open).toBeCalled();
-    done();
 });
 
 
@@ -106,8 +115,10 @@ it('test signedin', function (done) {
 
 
 it('test signout', function (done) {
-    cognitoAuth.signOut();
+    cognitoAuth.signOut().then(() => {
+        expect((global as any).open).toBeCalled();
+        done();
+    });
     expect(cognitoAuth.getSignInUserSession()).toBeNull();
-    expect((global as any).open).toBeCalled();
-    done();
+    (mockXHR as any).onreadystatechange();
 });
\ No newline at end of file
@@ -0,0 +1,165 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['openid', 'orders/read'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const keyPrefix = 'CognitoIdentityServiceProvider.ClientId';
+
+const createAccessToken = (scope: string, expiresIn: number = 3600) =>
+    btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify({
+        username: 'prova', exp: Math.floor(Date.now() / 1000) + expiresIn, token_use: 'access', client_id: 'ClientId', scope,
+    }));
+
+const cacheSession = (scope: string, expiresIn: number) => {
+    localStorage.setItem(`${keyPrefix}.LastAuthUser`, 'prova');
+    localStorage.setItem(`${keyPrefix}.prova.idToken`, '');
+    localStorage.setItem(`${keyPrefix}.prova.accessToken`, createAccessToken(scope, expiresIn));
+    localStorage.setItem(`${keyPrefix}.prova.refreshToken`, 'refreshToken');
+    localStorage.setItem(`${keyPrefix}.prova.tokenScopesString`, scope);
+};
+
+const createCognitoAuth = (data: object = {}) => {
+    const launchUri = jest.fn();
+    const cognitoAuth = new CognitoAuth({ ...authData, LaunchUri: launchUri, ...data });
+    const refreshSession = jest.spyOn(cognitoAuth, 'refreshSession')
+        .mockImplementation(() => Promise.resolve(new CognitoAuthSession()));
+    return { cognitoAuth, launchUri, refreshSession };
+};
+
+const signIn = (cognitoAuth: CognitoAuth, scope: string) => {
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=state&access_token=${createAccessToken(scope)}`);
+};
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+it('test granted scopes cached', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    return signIn(cognitoAuth, 'openid orders/read aws.cognito.signin.user.admin').then(session => {
+        expect(session.getTokenScopes().getScopes()).toEqual(['openid', 'orders/read', 'aws.cognito.signin.user.admin']);
+        expect(localStorage.getItem(`${keyPrefix}.prova.tokenScopesString`))
+            .toEqual('openid orders/read aws.cognito.signin.user.admin');
+        expect(new CognitoAuth(authData).getSignInUserSession().getTokenScopes().getScopes())
+            .toEqual(['openid', 'orders/read', 'aws.cognito.signin.user.admin']);
+    });
+});
+
+it('test requestAdditionalScopes keeps the session', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    return signIn(cognitoAuth, 'openid orders/read').then(session => {
+        return cognitoAuth.requestAdditionalScopes(['orders/write', 'openid']).then(result => {
+            expect(result).toBeUndefined();
+            expect(launchUri.mock.calls[0][0]).toMatch(/&scope=openid%20orders%2Fread%20orders%2Fwrite(&|$)/);
+            expect(cognitoAuth.getSignInUserSession()).toBe(session);
+            expect(session.isValid()).toBeTruthy();
+            expect(cognitoAuth.tokenScopesArray).toEqual(['openid', 'orders/read']);
+            return signIn(cognitoAuth, 'openid orders/read orders/write');
+        });
+    }).then(session => {
+        expect(session.hasScope('orders/write')).toBeTruthy();
+        expect(cognitoAuth.tokenScopesArray).toEqual(['openid', 'orders/read', 'orders/write']);
+    });
+});
+
+it('test requestAdditionalScopes already granted', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    return signIn(cognitoAuth, 'openid orders/read orders/write').then(session =>
+        cognitoAuth.requestAdditionalScopes(['orders/write']).then(result => {
+            expect(result).toBe(session);
+            expect(launchUri).not.toBeCalled();
+        })
+    );
+});
+
+it('test scope mismatch signs in again by default', function () {
+    cacheSession('openid', -3600);
+    const { cognitoAuth, launchUri, refreshSession } = createCognitoAuth();
+    return cognitoAuth.getSession().then(() => {
+        expect(refreshSession).not.toBeCalled();
+        expect(launchUri).toBeCalled();
+        expect(cognitoAuth.getSignInUserSession().getRefreshToken().getToken()).toBeFalsy();
+    });
+});
+
+it('test scope mismatch warning', function () {
+    cacheSession('openid', -3600);
+    const { cognitoAuth, launchUri, refreshSession } = createCognitoAuth({ ScopeMismatch: 'warn' });
+    const scopeMismatch = jest.fn();
+    cognitoAuth.on('scopeMismatch', scopeMismatch);
+    return cognitoAuth.getSession().then(() => {
+        expect(scopeMismatch).toBeCalledWith({
+            requested: ['openid', 'orders/read'], granted: ['openid'], missing: ['orders/read'],
+        });
+        expect(refreshSession).toBeCalledWith('refreshToken');
+        expect(launchUri).not.toBeCalled();
+    });
+});
+
+it('test scope mismatch ignored', function () {
+    cacheSession('openid', -3600);
+    const { cognitoAuth, launchUri, refreshSession } = createCognitoAuth({ ScopeMismatch: 'ignore' });
+    const scopeMismatch = jest.fn();
+    cognitoAuth.on('scopeMismatch', scopeMismatch);
+    return cognitoAuth.getSession().then(() => {
+        expect(scopeMismatch).not.toBeCalled();
+        expect(refreshSession).toBeCalledWith('refreshToken');
+        expect(launchUri).not.toBeCalled();
+    });
+});
+
+it('test requestAdditionalScopes with a redirect', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    return signIn(cognitoAuth, 'openid orders/read').then(() => cognitoAuth.requestAdditionalScopes(['orders/write']))
+        .then(() => {
+            expect(localStorage.getItem(`${keyPrefix}.additionalScopes`)).toEqual('orders/write');
+            // the page is reloaded by the redirect
+            const reloaded = createCognitoAuth().cognitoAuth;
+            const state = localStorage.getItem(`${keyPrefix}.oauthState`);
+            return reloaded.parseCognitoWebResponse(`http://localhost:3000#state=${state}&access_token=${
+                createAccessToken('openid orders/read orders/write')}`).then(session => {
+                expect(session.hasScope('orders/write')).toBeTruthy();
+                expect(reloaded.tokenScopesArray).toEqual(['openid', 'orders/read', 'orders/write']);
+                expect(localStorage.getItem(`${keyPrefix}.additionalScopes`)).toBeNull();
+            });
+        });
+});
+
+it('test requestAdditionalScopes not granted keeps the session', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    return signIn(cognitoAuth, 'openid orders/read').then(() => cognitoAuth.requestAdditionalScopes(['orders/write']))
+        .then(() => signIn(cognitoAuth, 'openid orders/read'))
+        .then(session => {
+            expect(cognitoAuth.tokenScopesArray).toEqual(['openid', 'orders/read']);
+            launchUri.mockClear();
+            return cognitoAuth.getSession().then(result => {
+                expect(result).toBe(session);
+                expect(launchUri).not.toBeCalled();
+            });
+        });
+});
+
+it('test requestAdditionalScopes cleared on error', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    return signIn(cognitoAuth, 'openid orders/read').then(() => cognitoAuth.requestAdditionalScopes(['orders/write']))
+        .then(() => {
+            const state = localStorage.getItem(`${keyPrefix}.oauthState`);
+            return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=${state}&error=access_denied`);
+        }).then(() => {
+            throw new Error('expected rejection');
+        }, () => {
+            expect(cognitoAuth.getRequestedScopes()).toEqual(['openid', 'orders/read']);
+            expect(localStorage.getItem(`${keyPrefix}.additionalScopes`)).toBeNull();
+        });
+});
@@ -0,0 +1,70 @@
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoToken from '../src/CognitoToken';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+
+const issuer = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool';
+const options = { ClientId: 'ClientId', Issuer: issuer, ClockSkew: 60 };
+const now = Math.floor(Date.now() / 1000);
+
+const createToken = (payload: object) => new CognitoToken(
+    btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload)));
+
+const accessPayload = { username: 'prova', exp: now + 3600, iat: now, token_use: 'access', client_id: 'ClientId', iss: issuer };
+const idPayload = { 'cognito:username': 'prova', exp: now + 3600, iat: now, token_use: 'id', aud: 'ClientId', iss: issuer };
+
+const createSession = (access: object, id: object = idPayload) => new CognitoAuthSession({
+    IdToken: createToken(id),
+    AccessToken: createToken(access),
+    RefreshToken: new CognitoRefreshToken(),
+    TokenScopes: new CognitoTokenScopes(),
+});
+
+it('test valid session', function () {
+    const session = createSession(accessPayload);
+    expect(session.validate(options)).toEqual({ valid: true });
+    expect(session.isValid(options)).toBeTruthy();
+});
+
+it('test missing tokens', function () {
+    expect(new CognitoAuthSession().validate(options)).toEqual({ valid: false, reason: 'missingToken' });
+});
+
+it('test expired access token', function () {
+    const session = createSession({ ...accessPayload, exp: now - 120 });
+    expect(session.validate(options)).toEqual({ valid: false, reason: 'expired', token: 'access' });
+    expect(session.isValid(options)).toBeFalsy();
+});
+
+it('test clock skew tolerance', function () {
+    const session = createSession({ ...accessPayload, exp: now - 30, iat: now + 30 });
+    expect(session.isValid(options)).toBeTruthy();
+    expect(session.validate({ ...options, ClockSkew: 0 })).toEqual({ valid: false, reason: 'expired', token: 'access' });
+});
+
+it('test nbf and iat', function () {
+    expect(createSession({ ...accessPayload, nbf: now + 600 }).validate(options))
+        .toEqual({ valid: false, reason: 'notYetValid', token: 'access' });
+    expect(createSession(accessPayload, { ...idPayload, iat: now + 600 }).validate(options))
+        .toEqual({ valid: false, reason: 'issuedInFuture', token: 'id' });
+});
+
+it('test token_use', function () {
+    expect(createSession(idPayload, idPayload).validate(options))
+        .toEqual({ valid: false, reason: 'invalidTokenUse', token: 'access' });
+    expect(createSession(accessPayload, accessPayload).validate(options))
+        .toEqual({ valid: false, reason: 'invalidTokenUse', token: 'id' });
+});
+
+it('test issuer', function () {
+    const session = createSession({ ...accessPayload, iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_other' });
+    expect(session.validate(options)).toEqual({ valid: false, reason: 'invalidIssuer', token: 'access' });
+    expect(session.isValid({ ClientId: 'ClientId' })).toBeTruthy();
+});
+
+it('test audience and client id', function () {
+    expect(createSession({ ...accessPayload, client_id: 'OtherClientId' }).validate(options))
+        .toEqual({ valid: false, reason: 'invalidClientId', token: 'access' });
+    expect(createSession(accessPayload, { ...idPayload, aud: 'OtherClientId' }).validate(options))
+        .toEqual({ valid: false, reason: 'invalidAudience', token: 'id' });
+});
@@ -0,0 +1,104 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoConstants from '../src/CognitoConstants';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+const mockXHR = {
+    open: jest.fn(),
+    send: jest.fn(),
+    onreadystatechange: jest.fn(),
+    readyState: 4,
+    responseText: '',
+    statusText: "OK",
+    status: 200,
+    setRequestHeader: jest.fn(),
+    [CognitoConstants.WITHCREDENTIALS]: CognitoConstants.WITHCREDENTIALS
+};
+(window as any).XMLHttpRequest = jest.fn(() => mockXHR);
+
+const createCognitoAuth = () => {
+    const launchUri = jest.fn();
+    const cognitoAuth = new CognitoAuth({ ...authData, LaunchUri: launchUri }, false);
+    const session = new CognitoAuthSession();
+    session.setRefreshToken(new CognitoRefreshToken('refreshToken'));
+    (cognitoAuth as any).signInUserSession = session;
+    return { cognitoAuth, launchUri };
+};
+
+beforeEach(() => {
+    mockXHR.open.mockClear();
+    mockXHR.send.mockClear();
+    mockXHR.status = 200;
+});
+
+it('test revokeRefreshToken', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const result = cognitoAuth.revokeRefreshToken();
+    (mockXHR as any).onreadystatechange();
+    return result.then(() => {
+        expect(mockXHR.open).toBeCalledWith('POST', 'https://localhost:3000/oauth2/revoke', true);
+        expect(mockXHR.send).toBeCalledWith('token=refreshToken&client_id=ClientId');
+    });
+});
+
+it('test revokeRefreshToken failure', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    mockXHR.status = 400;
+    const result = cognitoAuth.revokeRefreshToken();
+    (mockXHR as any).onreadystatechange();
+    return result.then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeDefined();
+    });
+});
+
+it('test full signOut', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    const result = cognitoAuth.signOut();
+    expect(launchUri).not.toBeCalled();
+    (mockXHR as any).onreadystatechange();
+    return result.then(() => {
+        expect(mockXHR.send).toBeCalledWith('token=refreshToken&client_id=ClientId');
+        expect(launchUri).toBeCalledWith(cognitoAuth.getFQDNSignOut());
+        expect(cognitoAuth.getSignInUserSession()).toBeNull();
+    });
+});
+
+it('test full signOut when revocation fails', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    mockXHR.status = 400;
+    const result = cognitoAuth.signOut('full');
+    (mockXHR as any).onreadystatechange();
+    return result.then(() => {
+        expect(launchUri).toBeCalledWith(cognitoAuth.getFQDNSignOut());
+    });
+});
+
+it('test revoke signOut', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    const result = cognitoAuth.signOut('revoke');
+    (mockXHR as any).onreadystatechange();
+    return result.then(() => {
+        expect(mockXHR.send).toBeCalledWith('token=refreshToken&client_id=ClientId');
+        expect(launchUri).not.toBeCalled();
+    });
+});
+
+it('test local signOut', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    return cognitoAuth.signOut('local').then(() => {
+        expect(mockXHR.send).not.toBeCalled();
+        expect(launchUri).not.toBeCalled();
+        expect(cognitoAuth.getSignInUserSession()).toBeNull();
+    });
+});
@@ -0,0 +1,148 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoToken from '../src/CognitoToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+import InteractionRequiredError from '../src/InteractionRequiredError';
+import { handlePopupCallback } from '../src/PopupHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000/callback",
+    RedirectUriSignOut: "http://localhost:3000",
+    SilentRenew: true,
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const stateKey = 'CognitoIdentityServiceProvider.ClientId.oauthState';
+
+const createAccessToken = (expiresIn: number) => btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username: 'alice', exp: Math.floor(Date.now() / 1000) + expiresIn, token_use: 'access', client_id: 'ClientId' }));
+
+const accessToken = createAccessToken(3600);
+
+const getIframe = () => document.querySelector('iframe[name="CognitoAuthSilentRenew"]') as HTMLIFrameElement;
+
+const waitForIframe = () => new Promise<HTMLIFrameElement>(resolve => {
+    const check = () => getIframe() ? resolve(getIframe()) : setTimeout(check, 5);
+    check();
+});
+
+const postFromIframe = (iframe: HTMLIFrameElement, url: string) => {
+    const event = new MessageEvent('message', { data: { type: 'CognitoAuthCallback', url }, origin: 'http://localhost:3000' });
+    Object.defineProperty(event, 'source', { value: iframe.contentWindow });
+    window.dispatchEvent(event);
+};
+
+const expectRejection = (promise: Promise<any>) => promise.then(() => {
+    throw new Error('expected rejection');
+}, e => e);
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+it('test renewSessionSilently with the implicit flow', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    const tokenRefreshed = jest.fn();
+    cognitoAuth.on('tokenRefreshed', tokenRefreshed);
+    const result = cognitoAuth.renewSessionSilently();
+    expect(cognitoAuth.renewSessionSilently()).toBe(result);
+    return waitForIframe().then(iframe => {
+        expect(iframe.src).toContain('https://localhost:3000/oauth2/authorize?');
+        expect(iframe.src).toContain('&prompt=none');
+        expect(iframe.style.display).toEqual('none');
+        postFromIframe(iframe, `http://localhost:3000/callback#state=${localStorage.getItem(stateKey)}&access_token=${accessToken}`);
+        return result;
+    }).then(session => {
+        expect(session.getAccessToken().getJwtToken()).toEqual(accessToken);
+        expect(tokenRefreshed).toBeCalledWith(session);
+        expect(getIframe()).toBeNull();
+    });
+});
+
+it('test renewSessionSilently with the code grant flow', function () {
+    const httpClient = {
+        request: jest.fn((request: any) => Promise.resolve({
+            status: 200,
+            body: JSON.stringify({ access_token: accessToken, refresh_token: 'refreshToken' }),
+        })),
+    };
+    const cognitoAuth = new CognitoAuth({ ...authData, HttpClient: httpClient }, false);
+    const result = cognitoAuth.renewSessionSilently();
+    return waitForIframe().then(iframe => {
+        expect(iframe.src).toContain('&code_challenge=');
+        postFromIframe(iframe, `http://localhost:3000/callback?code=code&state=${localStorage.getItem(stateKey)}`);
+        return result;
+    }).then(session => {
+        expect(httpClient.request.mock.calls[0][0].body).toContain('grant_type=authorization_code&code=code');
+        expect(session.getRefreshToken().getToken()).toEqual('refreshToken');
+    });
+});
+
+it('test renewSessionSilently without hosted UI session', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    const refreshFailed = jest.fn();
+    cognitoAuth.on('refreshFailed', refreshFailed);
+    const result = expectRejection(cognitoAuth.renewSessionSilently());
+    return waitForIframe().then(iframe => {
+        postFromIframe(iframe, `http://localhost:3000/callback#error=login_required&state=${localStorage.getItem(stateKey)}`);
+        return result;
+    }).then(e => {
+        expect(e).toBeInstanceOf(InteractionRequiredError);
+        expect(e.code).toEqual('login_required');
+        expect(refreshFailed).toBeCalledWith(e);
+    });
+});
+
+it('test renewSessionSilently timeout', function () {
+    const cognitoAuth = new CognitoAuth({ ...authData, SilentRenewTimeout: 50 });
+    return expectRejection(cognitoAuth.renewSessionSilently()).then(e => {
+        expect(e).toBeInstanceOf(InteractionRequiredError);
+        expect(e.code).toEqual('interaction_required');
+        expect(getIframe()).toBeNull();
+    });
+});
+
+it('test refreshSession renews silently with the implicit flow', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    const result = cognitoAuth.refreshSession(undefined);
+    return waitForIframe().then(iframe => {
+        postFromIframe(iframe, `http://localhost:3000/callback#state=${localStorage.getItem(stateKey)}&access_token=${accessToken}`);
+        return result;
+    }).then(session => {
+        expect(session.getAccessToken().getJwtToken()).toEqual(accessToken);
+    });
+});
+
+it('test getSession falls back to the hosted UI', function () {
+    const launchUri = jest.fn();
+    const cognitoAuth = new CognitoAuth({ ...authData, LaunchUri: launchUri, SilentRenewTimeout: 50 });
+    (cognitoAuth as any).signInUserSession = new CognitoAuthSession({
+        IdToken: new CognitoToken(),
+        AccessToken: new CognitoToken(createAccessToken(-3600)),
+        RefreshToken: new CognitoRefreshToken(),
+        TokenScopes: new CognitoTokenScopes(authData.TokenScopesArray),
+    });
+    cognitoAuth.cacheTokensScopes();
+    return cognitoAuth.getSession().then(session => {
+        expect(session).toBeUndefined();
+        expect(launchUri).toBeCalledWith(expect.stringContaining('https://localhost:3000/oauth2/authorize?'));
+        expect(launchUri.mock.calls[0][0]).not.toContain('prompt=none');
+    });
+});
+
+it('test handlePopupCallback in the silent renew iframe', function () {
+    const parent = { postMessage: jest.fn() };
+    Object.defineProperty(window, 'parent', { value: parent, configurable: true });
+    window.name = 'CognitoAuthSilentRenew';
+    expect(handlePopupCallback('http://localhost/callback#access_token=token')).toBeTruthy();
+    expect(parent.postMessage).toBeCalledWith({ type: 'CognitoAuthCallback', url: 'http://localhost/callback#access_token=token' },
+        window.location.origin);
+    window.name = '';
+    Object.defineProperty(window, 'parent', { value: window, configurable: true });
+});
@@ -0,0 +1,145 @@
+import CognitoAuth from '../src/CognitoAuth';
+import StateMismatchError from '../src/StateMismatchError';
+import CognitoConstants from '../src/CognitoConstants';
+import { setNodeCrypto } from '../src/CryptoHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const payload = { username: 'prova', exp: (Date.now() + 100) };
+
+const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload))
+
+const stateKey = 'CognitoIdentityServiceProvider.ClientId.oauthState';
+const nonceKey = 'CognitoIdentityServiceProvider.ClientId.oauthNonce';
+
+const createIdToken = (nonce?: string) => btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ 'cognito:username': 'prova', exp: (Date.now() + 100), nonce }));
+
+it('test state generated and persisted', function (done) {
+    const cognitoAuth = new CognitoAuth(authData);
+    const url = cognitoAuth.getFQDNSignIn();
+    const state = localStorage.getItem(stateKey);
+    expect(state).toMatch(/^[0-9a-zA-Z]{32}$/);
+    expect(url).toContain(`&state=${state}&`);
+    expect(new CognitoAuth(authData).getFQDNSignIn()).not.toContain(`&state=${state}&`);
+    done();
+});
+
+it('test state verified', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('app state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = `http://localhost:3000#state=app%20state&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(data => {
+        expect(data.getState()).toEqual('app state');
+        expect(localStorage.getItem(stateKey)).toBeNull();
+    });
+});
+
+it('test state mismatch', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.getFQDNSignIn();
+    const state = cognitoAuth.getState();
+    const urlParse = `http://localhost:3000#state=forged&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(StateMismatchError);
+        expect(cognitoAuth.getState()).toBeNull();
+        expect(cognitoAuth.getFQDNSignIn()).not.toContain(`&state=${state}&`);
+    });
+});
+
+it('test state generated without WebCrypto', function () {
+    const webcrypto = (window as any).crypto;
+    (window as any).crypto = undefined;
+    expect(() => new CognitoAuth(authData).getFQDNSignIn()).toThrow(CognitoConstants.RANDOMERROR);
+    // registered by the node entry point
+    setNodeCrypto(require('crypto'));
+    try {
+        const url = new CognitoAuth(authData).getFQDNSignIn();
+        expect(url).toContain(`&state=${localStorage.getItem(stateKey)}&`);
+        expect(localStorage.getItem(stateKey)).toMatch(/^[0-9a-zA-Z]{32}$/);
+    } finally {
+        setNodeCrypto(undefined);
+        (window as any).crypto = webcrypto;
+    }
+});
+
+it('test state missing', function () {
+    const cognitoAuth = new CognitoAuth(authData, false);
+    cognitoAuth.getFQDNSignIn();
+    return cognitoAuth.parseCognitoWebResponse('http://localhost:3000/?code=code').then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(StateMismatchError);
+    });
+});
+
+it('test replayed callback', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = `http://localhost:3000#state=state&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() =>
+        cognitoAuth.parseCognitoWebResponse(urlParse)
+    ).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(StateMismatchError);
+    });
+});
+
+it('test nonce generated and persisted', function (done) {
+    const cognitoAuth = new CognitoAuth(authData);
+    const url = cognitoAuth.getFQDNSignIn();
+    const nonce = localStorage.getItem(nonceKey);
+    expect(nonce).toMatch(/^[0-9a-zA-Z]{32}$/);
+    expect(url).toContain(`&nonce=${nonce}&`);
+    done();
+});
+
+it('test nonce verified', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const idToken = createIdToken(localStorage.getItem(nonceKey));
+    const urlParse = `http://localhost:3000#state=state&id_token=${idToken}&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(data => {
+        expect(data.getIdToken().getJwtToken()).toEqual(idToken);
+        expect(localStorage.getItem(nonceKey)).toBeNull();
+    });
+});
+
+it('test nonce missing', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = `http://localhost:3000#state=state&id_token=${createIdToken()}&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.NONCEMISSINGERROR);
+    });
+});
+
+it('test nonce mismatch', function () {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const urlParse = `http://localhost:3000#state=state&id_token=${createIdToken('forged')}&access_token=${jwtToken}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.NONCEMISMATCHERROR);
+    });
+});
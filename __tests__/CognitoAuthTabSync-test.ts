@@ -0,0 +1,242 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoToken from '../src/CognitoToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+import CognitoConstants from '../src/CognitoConstants';
+import { withTabLock } from '../src/TabLockHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+let tokenCount = 0;
+const createAccessToken = (username: string, expiresIn = 3600) => btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username, exp: Math.floor(Date.now() / 1000) + expiresIn, token_use: 'access',
+        client_id: 'ClientId', jti: tokenCount++ }));
+
+const signIn = (cognitoAuth: CognitoAuth, username: string, expiresIn?: number) => {
+    (cognitoAuth as any).signInUserSession = new CognitoAuthSession({
+        IdToken: new CognitoToken(),
+        AccessToken: new CognitoToken(createAccessToken(username, expiresIn)),
+        RefreshToken: new CognitoRefreshToken(`${username}RefreshToken`),
+        TokenScopes: new CognitoTokenScopes(authData.TokenScopesArray),
+    });
+    cognitoAuth.cacheTokensScopes();
+};
+
+const wait = (milliseconds = 0) => new Promise(resolve => setTimeout(resolve, milliseconds));
+
+// the storage events are only fired in the other tabs
+const fireStorageEvent = () => window.dispatchEvent(new StorageEvent('storage', {
+    key: 'CognitoIdentityServiceProvider.ClientId.LastAuthUser',
+}));
+
+// an in-process BroadcastChannel, the messages are delivered to the other channels of the same name
+class FakeBroadcastChannel {
+    static channels: FakeBroadcastChannel[] = [];
+    name: string;
+    onmessage: (event: any) => void;
+
+    constructor(name: string) {
+        this.name = name;
+        FakeBroadcastChannel.channels.push(this);
+    }
+
+    postMessage(data: any) {
+        FakeBroadcastChannel.channels
+            .filter(channel => channel !== this && channel.name === this.name)
+            .forEach(channel => setTimeout(() => channel.onmessage({ data })));
+    }
+
+    close() {
+        FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(channel => channel !== this);
+    }
+}
+
+// a Web Locks API running the requests of a lock one after the other
+const createLocks = () => {
+    const queues: { [name: string]: Promise<any> } = {};
+    return {
+        request: jest.fn((name: string, callback: () => Promise<any>) => {
+            const result = (queues[name] || Promise.resolve()).then(() => callback());
+            queues[name] = result.catch(() => undefined);
+            return result;
+        }),
+    };
+};
+
+const createTab = (httpClient?: any) => {
+    const cognitoAuth = new CognitoAuth({ ...authData, SyncTabs: true, HttpClient: httpClient }, false);
+    const events = { signedIn: jest.fn(), tokenRefreshed: jest.fn(), signedOut: jest.fn() };
+    cognitoAuth.on('signedIn', events.signedIn);
+    cognitoAuth.on('tokenRefreshed', events.tokenRefreshed);
+    cognitoAuth.on('signedOut', events.signedOut);
+    return { cognitoAuth, events };
+};
+
+const createTokenEndpoint = () => ({
+    request: jest.fn(() => wait(10).then(() => ({
+        status: 200,
+        body: JSON.stringify({ access_token: createAccessToken('alice'), id_token: '' }),
+    }))),
+});
+
+const tabs: CognitoAuth[] = [];
+
+const openTab = (httpClient?: any) => {
+    const tab = createTab(httpClient);
+    tabs.push(tab.cognitoAuth);
+    return tab;
+};
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+afterEach(() => {
+    tabs.splice(0).forEach(tab => tab.stopSyncTabs());
+    delete (window as any).BroadcastChannel;
+    delete (navigator as any).locks;
+});
+
+it('test sign in, refresh and sign out from a storage event', function () {
+    const { cognitoAuth, events } = openTab();
+    const otherTab = new CognitoAuth(authData, false);
+    signIn(otherTab, 'alice');
+    fireStorageEvent();
+    return wait().then(() => {
+        expect(cognitoAuth.getUsername()).toEqual('alice');
+        expect(cognitoAuth.isUserSignedIn()).toBeTruthy();
+        expect(events.signedIn).toBeCalledWith(cognitoAuth.getSignInUserSession());
+        signIn(otherTab, 'alice');
+        fireStorageEvent();
+        return wait();
+    }).then(() => {
+        expect(cognitoAuth.getSignInUserSession().getAccessToken().getJwtToken())
+            .toEqual(otherTab.getSignInUserSession().getAccessToken().getJwtToken());
+        expect(events.tokenRefreshed).toHaveBeenCalledTimes(1);
+        return otherTab.signOut('local');
+    }).then(() => {
+        fireStorageEvent();
+        return wait();
+    }).then(() => {
+        expect(cognitoAuth.isUserSignedIn()).toBeFalsy();
+        expect(events.signedOut).toHaveBeenCalledTimes(1);
+        expect(events.signedIn).toHaveBeenCalledTimes(1);
+    });
+});
+
+it('test storage events of other clients ignored', function () {
+    const { events } = openTab();
+    signIn(new CognitoAuth(authData, false), 'alice');
+    window.dispatchEvent(new StorageEvent('storage', { key: 'other' }));
+    return wait().then(() => {
+        expect(events.signedIn).not.toBeCalled();
+    });
+});
+
+it('test sign in from a BroadcastChannel message', function () {
+    (window as any).BroadcastChannel = FakeBroadcastChannel;
+    const { cognitoAuth, events } = openTab();
+    const otherTab = openTab();
+    signIn(otherTab.cognitoAuth, 'alice');
+    expect(otherTab.events.signedIn).not.toBeCalled();
+    return wait(20).then(() => {
+        expect(cognitoAuth.getUsername()).toEqual('alice');
+        expect(events.signedIn).toHaveBeenCalledTimes(1);
+        otherTab.cognitoAuth.stopSyncTabs();
+        signIn(otherTab.cognitoAuth, 'bob');
+        return wait(20);
+    }).then(() => {
+        expect(cognitoAuth.getUsername()).toEqual('alice');
+    });
+});
+
+it('test one tab refreshes with Web Locks', function () {
+    (navigator as any).locks = createLocks();
+    const httpClient = createTokenEndpoint();
+    const first = openTab(httpClient);
+    signIn(first.cognitoAuth, 'alice', 10);
+    const second = openTab(httpClient);
+    return Promise.all([
+        first.cognitoAuth.refreshSession('aliceRefreshToken'),
+        second.cognitoAuth.refreshSession('aliceRefreshToken'),
+    ]).then(([firstSession, secondSession]) => {
+        expect(httpClient.request).toHaveBeenCalledTimes(1);
+        expect((navigator as any).locks.request).toBeCalledWith('CognitoRefreshLock.ClientId', expect.any(Function));
+        expect(secondSession.getAccessToken().getJwtToken()).toEqual(firstSession.getAccessToken().getJwtToken());
+        expect(second.events.tokenRefreshed).toBeCalled();
+    });
+});
+
+it('test one tab refreshes with the storage lease', function () {
+    const httpClient = createTokenEndpoint();
+    const first = openTab(httpClient);
+    signIn(first.cognitoAuth, 'alice', 10);
+    const second = openTab(httpClient);
+    return Promise.all([
+        first.cognitoAuth.refreshSession('aliceRefreshToken'),
+        second.cognitoAuth.refreshSession('aliceRefreshToken'),
+    ]).then(([firstSession, secondSession]) => {
+        expect(httpClient.request).toHaveBeenCalledTimes(1);
+        expect(secondSession.getAccessToken().getJwtToken()).toEqual(firstSession.getAccessToken().getJwtToken());
+        expect(localStorage.getItem('CognitoRefreshLock.ClientId')).toBeNull();
+    });
+});
+
+it('test storage lease renewed while the callback runs', function () {
+    jest.useFakeTimers();
+    let now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const advance = (milliseconds: number) => {
+        now += milliseconds;
+        jest.advanceTimersByTime(milliseconds);
+    };
+    const flush = () => Promise.resolve().then(() => undefined).then(() => undefined);
+    let finish: () => void;
+    const locked = withTabLock('lock', localStorage, () => new Promise<void>(resolve => {
+        finish = resolve;
+    }));
+    // the lease is confirmed after TABLOCKRETRYMILLISECONDS
+    advance(CognitoConstants.TABLOCKRETRYMILLISECONDS);
+    return flush().then(() => {
+        expect(finish).toBeDefined();
+        advance(CognitoConstants.TABLOCKLEASEMILLISECONDS);
+        expect(JSON.parse(localStorage.getItem('lock')).expiresAt).toBeGreaterThan(now);
+        finish();
+        return locked;
+    }).then(() => {
+        expect(localStorage.getItem('lock')).toBeNull();
+        advance(CognitoConstants.TABLOCKRENEWMILLISECONDS);
+        expect(localStorage.getItem('lock')).toBeNull();
+    }).then(() => {
+        dateNow.mockRestore();
+        jest.useRealTimers();
+    }, e => {
+        dateNow.mockRestore();
+        jest.useRealTimers();
+        throw e;
+    });
+});
+
+it('test refresh after a sign out in another tab', function () {
+    (navigator as any).locks = createLocks();
+    const httpClient = createTokenEndpoint();
+    const { cognitoAuth } = openTab(httpClient);
+    signIn(cognitoAuth, 'alice', 10);
+    new CognitoAuth(authData, false).clearCachedTokensScopes('alice');
+    return cognitoAuth.refreshSession('aliceRefreshToken').then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual('The user signed out in another tab.');
+        expect(httpClient.request).not.toBeCalled();
+    });
+});
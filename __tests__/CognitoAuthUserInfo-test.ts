@@ -0,0 +1,87 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoConstants from '../src/CognitoConstants';
+import CognitoToken from '../src/CognitoToken';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+const createAccessToken = (username: string) => btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username, exp: Math.floor(Date.now() / 1000) + 3600, token_use: 'access', client_id: 'ClientId' }));
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const userInfoResponse = {
+    sub: 'sub',
+    username: 'prova',
+    email: 'prova@example.com',
+    email_verified: 'true',
+    phone_number_verified: 'false',
+    updated_at: '1600000000',
+    'custom:tenant': 'tenant',
+};
+
+const createCognitoAuth = (status = 200) => {
+    const httpClient = { request: jest.fn(() => Promise.resolve({ status, body: JSON.stringify(userInfoResponse) })) };
+    const cognitoAuth = new CognitoAuth({ ...authData, HttpClient: httpClient, LaunchUri: jest.fn() }, false);
+    const session = new CognitoAuthSession();
+    session.setAccessToken(new CognitoToken(createAccessToken('prova')));
+    (cognitoAuth as any).signInUserSession = session;
+    return { cognitoAuth, httpClient, session };
+};
+
+it('test getUserInfo', function () {
+    const { cognitoAuth, httpClient, session } = createCognitoAuth();
+    return cognitoAuth.getUserInfo().then(userInfo => {
+        expect(httpClient.request).toBeCalledWith({
+            method: 'GET',
+            url: 'https://localhost:3000/oauth2/userInfo',
+            headers: { Authorization: 'Bearer ' + session.getAccessToken().getJwtToken() },
+            body: undefined,
+            signal: undefined,
+        });
+        expect(userInfo).toEqual({
+            sub: 'sub',
+            username: 'prova',
+            email: 'prova@example.com',
+            email_verified: true,
+            phone_number_verified: false,
+            updated_at: 1600000000,
+            customAttributes: { tenant: 'tenant' },
+        });
+    });
+});
+
+it('test cached per access token', function () {
+    const { cognitoAuth, httpClient, session } = createCognitoAuth();
+    return cognitoAuth.getUserInfo().then(() => cognitoAuth.getUserInfo()).then(() => {
+        expect(httpClient.request).toHaveBeenCalledTimes(1);
+        session.setAccessToken(new CognitoToken(createAccessToken('other')));
+        return cognitoAuth.getUserInfo();
+    }).then(() => {
+        expect(httpClient.request).toHaveBeenCalledTimes(2);
+    });
+});
+
+it('test not cached on failure', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth(401);
+    return cognitoAuth.getUserInfo().catch(() => cognitoAuth.getUserInfo()).catch(() => {
+        expect(httpClient.request).toHaveBeenCalledTimes(2);
+    });
+});
+
+it('test getUserInfo without session', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth();
+    return cognitoAuth.signOut('local').then(() => cognitoAuth.getUserInfo()).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.USERINFOSESSIONERROR);
+        expect(httpClient.request).not.toBeCalled();
+    });
+});
@@ -0,0 +1,98 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthError from '../src/CognitoAuthError';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoToken from '../src/CognitoToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+const createAccessToken = (username: string) => btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username, exp: Math.floor(Date.now() / 1000) + 3600, token_use: 'access', client_id: 'ClientId' }));
+
+const signIn = (cognitoAuth: CognitoAuth, username: string) => {
+    const session = new CognitoAuthSession({
+        IdToken: new CognitoToken(),
+        AccessToken: new CognitoToken(createAccessToken(username)),
+        RefreshToken: new CognitoRefreshToken(`${username}RefreshToken`),
+        TokenScopes: new CognitoTokenScopes(authData.TokenScopesArray),
+    });
+    (cognitoAuth as any).signInUserSession = session;
+    cognitoAuth.cacheTokensScopes();
+};
+
+const createCognitoAuth = () => {
+    const httpClient = { request: jest.fn(() => Promise.resolve({ status: 200, body: '' })) };
+    const launchUri = jest.fn();
+    const cognitoAuth = new CognitoAuth({ ...authData, HttpClient: httpClient, LaunchUri: launchUri }, false);
+    signIn(cognitoAuth, 'alice');
+    signIn(cognitoAuth, 'bob');
+    return { cognitoAuth, httpClient, launchUri };
+};
+
+const revokedTokens = (httpClient) => httpClient.request.mock.calls.map(call => call[0].body.split('&')[0]);
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+it('test cached users', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    expect(cognitoAuth.getCachedUsers()).toEqual(['alice', 'bob']);
+    expect(cognitoAuth.getCurrentUser()).toEqual('bob');
+    expect(new CognitoAuth(authData).getCachedUsers()).toEqual(['alice', 'bob']);
+});
+
+it('test switchUser', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    const session = cognitoAuth.switchUser('alice');
+    expect(session.getAccessToken().getUsername()).toEqual('alice');
+    expect(cognitoAuth.getSignInUserSession()).toBe(session);
+    expect(cognitoAuth.getUsername()).toEqual('alice');
+    expect(cognitoAuth.getCurrentUser()).toEqual('alice');
+    expect(() => cognitoAuth.switchUser('carol')).toThrow(CognitoAuthError);
+});
+
+it('test getSession of a user', function () {
+    const { cognitoAuth } = createCognitoAuth();
+    return cognitoAuth.getSession('alice').then(session => {
+        expect(session.getAccessToken().getUsername()).toEqual('alice');
+        expect(cognitoAuth.getCurrentUser()).toEqual('alice');
+    });
+});
+
+it('test signOutUser', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth();
+    return cognitoAuth.signOutUser('alice').then(() => {
+        expect(revokedTokens(httpClient)).toEqual(['token=aliceRefreshToken']);
+        expect(cognitoAuth.getCachedUsers()).toEqual(['bob']);
+        expect(cognitoAuth.getSignInUserSession().getAccessToken().getUsername()).toEqual('bob');
+        expect(cognitoAuth.getCurrentUser()).toEqual('bob');
+    });
+});
+
+it('test signOutUser of the current user', function () {
+    const { cognitoAuth, launchUri } = createCognitoAuth();
+    return cognitoAuth.signOutUser('bob', 'local').then(() => {
+        expect(cognitoAuth.getCachedUsers()).toEqual(['alice']);
+        expect(cognitoAuth.getSignInUserSession()).toBeNull();
+        expect(cognitoAuth.getCurrentUser()).toBeNull();
+        expect(launchUri).not.toBeCalled();
+    });
+});
+
+it('test signOutAll', function () {
+    const { cognitoAuth, httpClient, launchUri } = createCognitoAuth();
+    return cognitoAuth.signOutAll().then(() => {
+        expect(revokedTokens(httpClient).sort()).toEqual(['token=aliceRefreshToken', 'token=bobRefreshToken']);
+        expect(cognitoAuth.getCachedUsers()).toEqual([]);
+        expect(launchUri).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,83 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoIdToken from '../src/CognitoIdToken';
+import CognitoAccessToken from '../src/CognitoAccessToken';
+import { parseScope } from '../src/AuthorizationHelper';
+
+const now = Math.floor(Date.now() / 1000);
+
+const encode = (payload: object) =>
+    btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload));
+
+const createSession = (access: object = {}, id: object = {}) => new CognitoAuthSession({
+    IdToken: new CognitoIdToken(encode({ 'cognito:username': 'prova', exp: now + 3600, token_use: 'id', aud: 'ClientId', ...id })),
+    AccessToken: new CognitoAccessToken(encode({
+        username: 'prova', exp: now + 3600, token_use: 'access', client_id: 'ClientId',
+        scope: 'openid orders/read https://api.example.com/reports.read', 'cognito:groups': ['editors'], ...access,
+    })),
+});
+
+it('test scope helpers', function () {
+    const session = createSession();
+    expect(session.getGrantedScopes()).toEqual(['openid', 'orders/read', 'https://api.example.com/reports.read']);
+    expect(session.hasScope('orders/read')).toBeTruthy();
+    expect(session.hasScope('orders/write')).toBeFalsy();
+    expect(session.hasScope('orders/*')).toBeTruthy();
+    expect(session.hasScope('https://api.example.com/*')).toBeTruthy();
+    expect(session.hasScope('invoices/*')).toBeFalsy();
+    expect(session.hasAllScopes(['openid', 'orders/read'])).toBeTruthy();
+    expect(session.hasAllScopes(['openid', 'orders/write'])).toBeFalsy();
+    expect(session.hasAnyScope(['orders/write', 'openid'])).toBeTruthy();
+});
+
+it('test group helpers', function () {
+    const session = createSession();
+    expect(session.hasGroup('editors')).toBeTruthy();
+    expect(session.hasGroup('admin')).toBeFalsy();
+    expect(session.hasAnyGroup(['admin', 'editors'])).toBeTruthy();
+    expect(session.hasAnyGroup(['admin'])).toBeFalsy();
+});
+
+it('test groups from the Id token', function () {
+    const session = createSession({ 'cognito:groups': undefined }, { 'cognito:groups': ['admin'] });
+    expect(session.getGroups()).toEqual(['admin']);
+});
+
+it('test parseScope', function () {
+    expect(parseScope('openid')).toEqual({ name: 'openid' });
+    expect(parseScope('orders/read')).toEqual({ resourceServer: 'orders', name: 'read' });
+    expect(parseScope('https://api.example.com/reports.read'))
+        .toEqual({ resourceServer: 'https://api.example.com', name: 'reports.read' });
+});
+
+it('test requireAuth', function () {
+    const session = createSession();
+    expect(session.requireAuth({ scopes: ['orders/read'], groups: ['admin', 'editors'] })).toEqual({ allowed: true });
+    expect(session.requireAuth()).toEqual({ allowed: true });
+    expect(session.requireAuth({ scopes: ['orders/read', 'orders/write', 'invoices/*'] }))
+        .toEqual({ allowed: false, reason: 'missingScope', missing: ['orders/write', 'invoices/*'] });
+    expect(session.requireAuth({ groups: ['admin'] }))
+        .toEqual({ allowed: false, reason: 'missingGroup', missing: ['admin'] });
+});
+
+it('test requireAuth with an expired session', function () {
+    const session = createSession({ exp: now - 10 });
+    expect(session.requireAuth({ scopes: ['orders/read'] })).toEqual({
+        allowed: false, reason: 'unauthenticated', validation: { valid: false, reason: 'expired', token: 'access' },
+    });
+});
+
+it('test requireAuth of CognitoAuth', function () {
+    const cognitoAuth = new CognitoAuth({
+        ClientId: "ClientId",
+        AppWebDomain: "localhost:3000",
+        TokenScopesArray: ['openid', 'orders/read'],
+        RedirectUriSignIn: "http://localhost:3000",
+        RedirectUriSignOut: "http://localhost:3000",
+    });
+    expect(cognitoAuth.requireAuth({ scopes: ['orders/read'] }).reason).toEqual('unauthenticated');
+    (cognitoAuth as any).signInUserSession = createSession();
+    expect(cognitoAuth.requireAuth({ scopes: ['orders/read'] })).toEqual({ allowed: true });
+    (cognitoAuth as any).signInUserSession = createSession({ client_id: 'Other' });
+    expect(cognitoAuth.requireAuth().validation).toEqual({ valid: false, reason: 'invalidClientId', token: 'access' });
+});
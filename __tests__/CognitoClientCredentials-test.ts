@@ -0,0 +1,131 @@
+import CognitoClientCredentials from '../src/CognitoClientCredentials';
+import CognitoConstants from '../src/CognitoConstants';
+import OAuthError from '../src/OAuthError';
+
+
+const data: any = {
+    ClientId: "ClientId",
+    ClientSecret: "ClientSecret",
+    AppWebDomain: "localhost:3000",
+    AllowClientSecretInBrowser: true,
+};
+
+const createClientCredentials = (options: any = {}) => {
+    let count = 0;
+    const httpClient = {
+        request: jest.fn(() => {
+            count++;
+            return Promise.resolve({
+                status: 200,
+                body: JSON.stringify({ access_token: `accessToken${count}`, expires_in: 3600, token_type: 'Bearer' }),
+            });
+        }),
+    };
+    const clientCredentials = new CognitoClientCredentials({ ...data, ...options, HttpClient: httpClient });
+    return { clientCredentials, httpClient };
+};
+
+const createStorage = () => {
+    const items = {};
+    return {
+        items,
+        getItem: key => items[key],
+        setItem: (key, value) => {
+            items[key] = value;
+        },
+        removeItem: key => {
+            delete items[key];
+        },
+    };
+};
+
+it('test client credentials request', function () {
+    const { clientCredentials, httpClient } = createClientCredentials({ Storage: createStorage() });
+    return clientCredentials.getAccessToken(['orders/read', 'orders/write']).then(token => {
+        expect(token.getJwtToken()).toEqual('accessToken1');
+        expect(httpClient.request).toBeCalledWith({
+            method: 'POST',
+            url: 'https://localhost:3000/oauth2/token',
+            headers: { ...CognitoConstants.HEADER, Authorization: 'Basic ' + btoa('ClientId:ClientSecret') },
+            body: 'grant_type=client_credentials&scope=orders%2Fread%20orders%2Fwrite&client_id=ClientId',
+            signal: undefined,
+        });
+    });
+});
+
+it('test cached by scope set', function () {
+    const storage = createStorage();
+    const { clientCredentials, httpClient } = createClientCredentials({ Storage: storage });
+    return clientCredentials.getAccessToken(['b', 'a']).then(() =>
+        clientCredentials.getAccessToken(['a', 'b'])
+    ).then(token => {
+        expect(token.getJwtToken()).toEqual('accessToken1');
+        expect(httpClient.request).toHaveBeenCalledTimes(1);
+        expect(Object.keys(storage.items)).toEqual(['CognitoClientCredentials.ClientId.a b']);
+        return clientCredentials.getAccessToken(['c']);
+    }).then(token => {
+        expect(token.getJwtToken()).toEqual('accessToken2');
+    });
+});
+
+it('test concurrent requests', function () {
+    const { clientCredentials, httpClient } = createClientCredentials({ Storage: createStorage() });
+    return Promise.all([clientCredentials.getAccessToken(), clientCredentials.getAccessToken()]).then(tokens => {
+        expect(tokens[0].getJwtToken()).toEqual('accessToken1');
+        expect(tokens[1].getJwtToken()).toEqual('accessToken1');
+        expect(httpClient.request).toHaveBeenCalledTimes(1);
+    });
+});
+
+it('test fetched again before expiration', function () {
+    const { clientCredentials, httpClient } = createClientCredentials({
+        Storage: createStorage(),
+        RefreshBeforeSeconds: 3600,
+    });
+    return clientCredentials.getAccessToken().then(() =>
+        clientCredentials.getAccessToken()
+    ).then(token => {
+        expect(token.getJwtToken()).toEqual('accessToken2');
+        expect(httpClient.request).toHaveBeenCalledTimes(2);
+    });
+});
+
+it('test token endpoint error', function () {
+    const error = { error: 'invalid_client' };
+    const httpClient = { request: jest.fn(() => Promise.resolve({ status: 400, body: JSON.stringify(error) })) };
+    const clientCredentials = new CognitoClientCredentials({ ...data, HttpClient: httpClient });
+    return clientCredentials.getAccessToken().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(OAuthError);
+        expect(e.code).toEqual('invalid_client');
+    });
+});
+
+it('test required parameters', function () {
+    expect(() => new CognitoClientCredentials({ ...data, ClientSecret: undefined }))
+        .toThrow(CognitoConstants.CLIENTCREDENTIALSPARAMETERERROR);
+    expect(() => new CognitoClientCredentials({ ...data, AllowClientSecretInBrowser: false }))
+        .toThrow(CognitoConstants.CLIENTSECRETBROWSERERROR);
+});
+
+it('test default storage not shared', function () {
+    const first = createClientCredentials();
+    const second = createClientCredentials();
+    return first.clientCredentials.getAccessToken().then(() => second.clientCredentials.getAccessToken()).then(token => {
+        expect(token.getJwtToken()).toEqual('accessToken1');
+        expect(second.httpClient.request).toHaveBeenCalledTimes(1);
+        return first.clientCredentials.getAccessToken();
+    }).then(() => {
+        expect(first.httpClient.request).toHaveBeenCalledTimes(1);
+    });
+});
+
+it('test token returned when it cannot be cached', function () {
+    const storage = { ...createStorage(), setItem: jest.fn(() => Promise.reject(new Error('quota exceeded'))) };
+    const { clientCredentials } = createClientCredentials({ Storage: storage });
+    return clientCredentials.getAccessToken().then(token => {
+        expect(storage.setItem).toBeCalled();
+        expect(token.getJwtToken()).toEqual('accessToken1');
+    });
+});
@@ -0,0 +1,138 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoConstants from '../src/CognitoConstants';
+import CognitoJwtVerifier from '../src/CognitoJwtVerifier';
+
+const nodeCrypto = require('crypto');
+(window as any).crypto = nodeCrypto.webcrypto;
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+    UserPoolId: "us-east-1_pool",
+};
+
+const { privateKey, publicKey } = nodeCrypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'kid1', alg: 'RS256', use: 'sig' }] };
+
+const base64Url = (str: string) => Buffer.from(str).toString('base64')
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const signToken = (payload: object, kid: string = 'kid1', alg: string = 'RS256') => {
+    const signingInput = base64Url(JSON.stringify({ kid, alg })) + '.' + base64Url(JSON.stringify(payload));
+    const signature = nodeCrypto.sign('sha256', Buffer.from(signingInput), privateKey).toString('base64')
+        .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    return signingInput + '.' + signature;
+};
+
+const payload = { username: 'prova', exp: (Date.now() + 100) };
+
+it('test signature verified', function () {
+    const verifier = new CognitoJwtVerifier({ Jwks: jwks });
+    return verifier.verify(signToken(payload));
+});
+
+it('test tampered token rejected', function () {
+    const verifier = new CognitoJwtVerifier({ Jwks: jwks });
+    const parts = signToken(payload).split('.');
+    const forged = parts[0] + '.' + base64Url(JSON.stringify({ ...payload, username: 'admin' })) + '.' + parts[2];
+    return verifier.verify(forged).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.TOKENSIGNATUREERROR);
+    });
+});
+
+it('test unsigned token rejected', function () {
+    const verifier = new CognitoJwtVerifier({ Jwks: jwks });
+    const unsigned = base64Url(JSON.stringify({ kid: 'kid1', alg: 'none' })) + '.' +
+        base64Url(JSON.stringify(payload)) + '.';
+    return verifier.verify(unsigned).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.TOKENSIGNATUREERROR);
+    });
+});
+
+it('test jwks refetched on unknown kid', function () {
+    const fetchJwks = jest.fn(() => Promise.resolve(JSON.stringify(jwks)));
+    const verifier = new CognitoJwtVerifier({
+        JwksUri: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool/.well-known/jwks.json',
+        Jwks: { keys: [] },
+        FetchJwks: fetchJwks,
+    });
+    return verifier.verify(signToken(payload)).then(() => verifier.verify(signToken(payload))).then(() => {
+        expect(fetchJwks).toHaveBeenCalledTimes(1);
+        expect(fetchJwks).toBeCalledWith('https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool/.well-known/jwks.json');
+    });
+});
+
+it('test jwks fetch shared by concurrent unknown kids', function () {
+    const fetchJwks = jest.fn(() => Promise.resolve(JSON.stringify(jwks)));
+    const verifier = new CognitoJwtVerifier({ Jwks: { keys: [] }, FetchJwks: fetchJwks });
+    return Promise.all([verifier.verify(signToken(payload)), verifier.verify(signToken(payload))]).then(() => {
+        expect(fetchJwks).toHaveBeenCalledTimes(1);
+    });
+});
+
+it('test jwks not refetched within the minimum interval', function () {
+    const fetchJwks = jest.fn(() => Promise.resolve(JSON.stringify(jwks)));
+    const verifier = new CognitoJwtVerifier({ Jwks: { keys: [] }, FetchJwks: fetchJwks });
+    let now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const expectRejected = (token: string) => verifier.verify(token).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.TOKENSIGNATUREERROR);
+    });
+    return expectRejected(signToken(payload, 'kid2')).then(() => {
+        expect(fetchJwks).toHaveBeenCalledTimes(1);
+        return expectRejected(signToken(payload, 'kid3'));
+    }).then(() => {
+        expect(fetchJwks).toHaveBeenCalledTimes(1);
+        // the known keys are still verified
+        return verifier.verify(signToken(payload));
+    }).then(() => {
+        now += CognitoConstants.JWKSREFETCHMILLISECONDS;
+        return expectRejected(signToken(payload, 'kid3'));
+    }).then(() => {
+        expect(fetchJwks).toHaveBeenCalledTimes(2);
+    }).then(() => dateNow.mockRestore(), e => {
+        dateNow.mockRestore();
+        throw e;
+    });
+});
+
+it('test jwks uri from user pool', function () {
+    const cognitoAuth = new CognitoAuth({ ...authData, VerifyTokenSignature: true });
+    expect(cognitoAuth.jwtVerifier.jwksUri)
+        .toEqual('https://cognito-idp.us-east-1.amazonaws.com/us-east-1_pool/.well-known/jwks.json');
+});
+
+it('test parseCognitoWebResponse rejects forged token', function () {
+    const cognitoAuth = new CognitoAuth({ ...authData, VerifyTokenSignature: true, Jwks: jwks });
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const parts = signToken(payload).split('.');
+    const forged = parts[0] + '.' + base64Url(JSON.stringify({ ...payload, username: 'admin' })) + '.' + parts[2];
+    const urlParse = `http://localhost:3000#state=state&access_token=${forged}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.message).toEqual(CognitoConstants.TOKENSIGNATUREERROR);
+        expect(cognitoAuth.getSignInUserSession().getAccessToken().getJwtToken()).toEqual('');
+    });
+});
+
+it('test parseCognitoWebResponse accepts signed token', function () {
+    const cognitoAuth = new CognitoAuth({ ...authData, VerifyTokenSignature: true, Jwks: jwks });
+    cognitoAuth.setState('state');
+    cognitoAuth.getFQDNSignIn();
+    const token = signToken(payload);
+    const urlParse = `http://localhost:3000#state=state&access_token=${token}`;
+    return cognitoAuth.parseCognitoWebResponse(urlParse).then(data => {
+        expect(data.getAccessToken().getJwtToken()).toEqual(token);
+    });
+});
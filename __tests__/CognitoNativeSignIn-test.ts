@@ -0,0 +1,218 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoNativeSignIn from '../src/CognitoNativeSignIn';
+import CognitoConstants from '../src/CognitoConstants';
+import ConfigurationError from '../src/ConfigurationError';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "myapp://callback",
+    RedirectUriSignOut: "myapp://signout",
+};
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username: 'prova', exp: (Date.now() + 100) }));
+
+const callbackUrl = `myapp://callback#state=state&access_token=${jwtToken}`;
+
+const createLinking = (initialUrl: string = null) => {
+    const listeners: any[] = [];
+    return {
+        listeners,
+        openURL: jest.fn((url: string) => Promise.resolve()),
+        getInitialURL: jest.fn(() => Promise.resolve(initialUrl)),
+        addEventListener: jest.fn((type: 'url', listener: any) => {
+            listeners.push(listener);
+            return { remove: () => listeners.splice(listeners.indexOf(listener), 1) };
+        }),
+        emit: (url: string) => listeners.slice().forEach(listener => listener({ url })),
+    };
+};
+
+const createAppState = () => {
+    const listeners: any[] = [];
+    return {
+        listeners,
+        addEventListener: jest.fn((type: 'change', listener: any) => {
+            listeners.push(listener);
+            return { remove: () => listeners.splice(listeners.indexOf(listener), 1) };
+        }),
+        emit: (state: string) => listeners.slice().forEach(listener => listener(state)),
+    };
+};
+
+const createCognitoAuth = () => {
+    const cognitoAuth = new CognitoAuth(authData);
+    cognitoAuth.setState('state');
+    return cognitoAuth;
+};
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+it('test signIn completed by the deep link', function () {
+    const cognitoAuth = createCognitoAuth();
+    const linking = createLinking();
+    const nativeSignIn = new CognitoNativeSignIn(cognitoAuth, { Linking: linking });
+    const result = nativeSignIn.signIn();
+    return flushPromises().then(() => {
+        expect(linking.openURL).toBeCalledWith(expect.stringContaining('redirect_uri=myapp%3A%2F%2Fcallback'));
+        linking.emit('myapp://other');
+        linking.emit(callbackUrl);
+        return result;
+    }).then(session => {
+        expect(session.getAccessToken().getJwtToken()).toEqual(jwtToken);
+        expect(cognitoAuth.getSignInUserSession()).toBe(session);
+        nativeSignIn.stop();
+        expect(linking.listeners.length).toEqual(0);
+    });
+});
+
+it('test signIn with an auth session opener', function () {
+    const cognitoAuth = createCognitoAuth();
+    const linking = createLinking();
+    const callbackError = jest.fn();
+    cognitoAuth.on('callbackError', callbackError);
+    const openAuthSession = jest.fn((url: string, redirectUri: string) => {
+        // some in-app browsers also deliver the redirect as a deep link
+        linking.emit(callbackUrl);
+        return Promise.resolve({ type: 'success', url: callbackUrl });
+    });
+    const nativeSignIn = new CognitoNativeSignIn(cognitoAuth, { Linking: linking, OpenAuthSession: openAuthSession });
+    return nativeSignIn.signIn().then(session => {
+        expect(openAuthSession).toBeCalledWith(expect.stringContaining('state=state'), 'myapp://callback');
+        expect(linking.openURL).not.toBeCalled();
+        expect(session.getAccessToken().getJwtToken()).toEqual(jwtToken);
+        expect(callbackError).not.toBeCalled();
+        nativeSignIn.stop();
+    });
+});
+
+it('test signIn cancelled', function () {
+    const cognitoAuth = createCognitoAuth();
+    const nativeSignIn = new CognitoNativeSignIn(cognitoAuth, {
+        Linking: createLinking(),
+        OpenAuthSession: () => Promise.resolve({ type: 'cancel' }),
+    });
+    return nativeSignIn.signIn().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.code).toEqual(CognitoConstants.SIGNINCANCELLED);
+        expect(cognitoAuth.getSignInUserSession().isValid()).toBeFalsy();
+        nativeSignIn.stop();
+    });
+});
+
+it('test signIn cancelled when the app returns without the redirect', function () {
+    const appState = createAppState();
+    const nativeSignIn = new CognitoNativeSignIn(createCognitoAuth(), { Linking: createLinking(), AppState: appState });
+    const result = nativeSignIn.signIn();
+    return flushPromises().then(() => {
+        jest.useFakeTimers();
+        appState.emit('background');
+        appState.emit('active');
+        jest.advanceTimersByTime(CognitoConstants.SIGNINRETURNMILLISECONDS);
+        jest.useRealTimers();
+        return result;
+    }).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.code).toEqual(CognitoConstants.SIGNINCANCELLED);
+        expect(appState.listeners.length).toEqual(0);
+        nativeSignIn.stop();
+    });
+});
+
+it('test signIn completed by a deep link received after the app returns', function () {
+    const appState = createAppState();
+    const linking = createLinking();
+    const nativeSignIn = new CognitoNativeSignIn(createCognitoAuth(), { Linking: linking, AppState: appState });
+    const result = nativeSignIn.signIn();
+    return flushPromises().then(() => {
+        appState.emit('active');
+        linking.emit(callbackUrl);
+        return result;
+    }).then(session => {
+        expect(session.getAccessToken().getJwtToken()).toEqual(jwtToken);
+        expect(appState.listeners.length).toEqual(0);
+        nativeSignIn.stop();
+    });
+});
+
+it('test cancelSignIn', function () {
+    const nativeSignIn = new CognitoNativeSignIn(createCognitoAuth(), { Linking: createLinking() });
+    const result = nativeSignIn.signIn();
+    nativeSignIn.cancelSignIn();
+    return result.then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e.code).toEqual(CognitoConstants.SIGNINCANCELLED);
+        nativeSignIn.stop();
+    });
+});
+
+it('test app launched by the sign-in redirect', function () {
+    return createCognitoAuth().prepareFQDNSignIn().then(() => {
+        // the app was restarted, the state is restored from the storage
+        const cognitoAuth = new CognitoAuth(authData);
+        const nativeSignIn = new CognitoNativeSignIn(cognitoAuth, { Linking: createLinking(callbackUrl) });
+        return nativeSignIn.start().then(session => {
+            expect(session.getAccessToken().getJwtToken()).toEqual(jwtToken);
+            nativeSignIn.stop();
+        });
+    });
+});
+
+it('test app not launched by the sign-in redirect', function () {
+    const linking = createLinking('myapp://signout');
+    const nativeSignIn = new CognitoNativeSignIn(createCognitoAuth(), { Linking: linking });
+    return nativeSignIn.start().then(session => {
+        expect(session).toBeNull();
+        expect(linking.listeners.length).toEqual(1);
+        nativeSignIn.stop();
+    });
+});
+
+it('test signOut completed by the deep link', function () {
+    const cognitoAuth = createCognitoAuth();
+    const linking = createLinking();
+    const nativeSignIn = new CognitoNativeSignIn(cognitoAuth, { Linking: linking });
+    let signedOut = false;
+    const result = nativeSignIn.signOut().then(() => {
+        signedOut = true;
+    });
+    return flushPromises().then(() => {
+        expect(linking.openURL).toBeCalledWith(cognitoAuth.getFQDNSignOut());
+        expect(signedOut).toBeFalsy();
+        linking.emit('myapp://signout');
+        return result;
+    }).then(() => {
+        expect(cognitoAuth.getSignInUserSession()).toBeNull();
+        nativeSignIn.stop();
+    });
+});
+
+it('test signOut completed when the app returns without the redirect', function () {
+    const cognitoAuth = createCognitoAuth();
+    const appState = createAppState();
+    const nativeSignIn = new CognitoNativeSignIn(cognitoAuth, { Linking: createLinking(), AppState: appState });
+    const result = nativeSignIn.signOut();
+    return flushPromises().then(() => {
+        jest.useFakeTimers();
+        appState.emit('active');
+        jest.advanceTimersByTime(CognitoConstants.SIGNINRETURNMILLISECONDS);
+        jest.useRealTimers();
+        return result;
+    }).then(() => {
+        expect(cognitoAuth.getSignInUserSession()).toBeNull();
+        expect(appState.listeners.length).toEqual(0);
+        nativeSignIn.stop();
+    });
+});
+
+it('test Linking required outside React Native', function () {
+    expect(() => new CognitoNativeSignIn(createCognitoAuth())).toThrow(ConfigurationError);
+});
@@ -0,0 +1,180 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoRefreshScheduler from '../src/CognitoRefreshScheduler';
+import CognitoConstants from '../src/CognitoConstants';
+
+jest.useFakeTimers();
+
+(window as any).crypto = require('crypto').webcrypto;
+
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+const setVisibilityState = (state: string) => {
+    Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+};
+
+afterEach(() => {
+    setVisibilityState('visible');
+});
+
+it('test refresh scheduled before expiration', function () {
+    const refresh = jest.fn(() => Promise.resolve());
+    const expiration = Math.floor(Date.now() / 1000) + 400;
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => expiration,
+        Refresh: refresh,
+    });
+    scheduler.start();
+    jest.advanceTimersByTime(98000);
+    expect(refresh).not.toBeCalled();
+    jest.advanceTimersByTime(2000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+});
+
+it('test rescheduled after refresh', function () {
+    let expiration = Math.floor(Date.now() / 1000) + 400;
+    const refresh = jest.fn(() => {
+        expiration += 3600;
+        return Promise.resolve();
+    });
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => expiration,
+        Refresh: refresh,
+    });
+    scheduler.start();
+    jest.advanceTimersByTime(100000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    return flushPromises().then(() => {
+        jest.advanceTimersByTime(3600000);
+        expect(refresh).toHaveBeenCalledTimes(1);
+        jest.advanceTimersByTime(100000);
+        expect(refresh).toHaveBeenCalledTimes(2);
+        scheduler.stop();
+    });
+});
+
+it('test not rescheduled when the token is not renewed', function () {
+    const expiration = Math.floor(Date.now() / 1000) + 100;
+    const refresh = jest.fn(() => Promise.resolve());
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => expiration,
+        Refresh: refresh,
+    });
+    scheduler.start();
+    jest.runOnlyPendingTimers();
+    return flushPromises().then(() => {
+        jest.runOnlyPendingTimers();
+        expect(refresh).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+    });
+});
+
+it('test token lifetime not longer than RefreshBeforeSeconds', function () {
+    let now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const advance = (milliseconds: number) => {
+        now += milliseconds;
+        jest.advanceTimersByTime(milliseconds);
+    };
+    let expiration = Math.floor(now / 1000) + 300;
+    const refresh = jest.fn(() => {
+        expiration = Math.floor(now / 1000) + 300;
+        return Promise.resolve();
+    });
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => expiration,
+        Refresh: refresh,
+    });
+    scheduler.start();
+    advance(1000);
+    expect(refresh).not.toBeCalled();
+    advance(149000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    return flushPromises().then(() => {
+        advance(1000);
+        expect(refresh).toHaveBeenCalledTimes(1);
+        advance(150000);
+        expect(refresh).toHaveBeenCalledTimes(2);
+        scheduler.stop();
+        dateNow.mockRestore();
+    });
+});
+
+it('test expired token refreshed after the minimum delay', function () {
+    const refresh = jest.fn(() => Promise.resolve());
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => Math.floor(Date.now() / 1000) - 10,
+        Refresh: refresh,
+    });
+    scheduler.start();
+    jest.advanceTimersByTime(CognitoConstants.AUTOREFRESHMINMILLISECONDS - 1);
+    expect(refresh).not.toBeCalled();
+    jest.advanceTimersByTime(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+});
+
+it('test paused while hidden', function () {
+    const refresh = jest.fn(() => Promise.resolve());
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => Math.floor(Date.now() / 1000) + 100,
+        Refresh: refresh,
+    });
+    setVisibilityState('hidden');
+    scheduler.start();
+    jest.runOnlyPendingTimers();
+    expect(refresh).not.toBeCalled();
+    setVisibilityState('visible');
+    jest.runOnlyPendingTimers();
+    expect(refresh).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+});
+
+it('test stop', function () {
+    const refresh = jest.fn(() => Promise.resolve());
+    const scheduler = new CognitoRefreshScheduler({
+        RefreshBeforeSeconds: 300,
+        GetExpiration: () => Math.floor(Date.now() / 1000) + 100,
+        Refresh: refresh,
+    });
+    scheduler.start();
+    scheduler.stop();
+    jest.runOnlyPendingTimers();
+    expect(refresh).not.toBeCalled();
+    expect(scheduler.running).toBeFalsy();
+});
+
+it('test auto refresh resumed after signOut and sign in', function () {
+    const cognitoAuth = new CognitoAuth({
+        ClientId: "ClientId",
+        AppWebDomain: "localhost:3000",
+        TokenScopesArray: ['email', 'profile', 'openid'],
+        RedirectUriSignIn: "http://localhost:3000",
+        RedirectUriSignOut: "http://localhost:3000",
+        Storage: undefined,
+        AutoRefresh: true,
+    });
+    const refresh = jest.spyOn(cognitoAuth as any, 'refreshSessionInBackground').mockImplementation(() => Promise.resolve(undefined));
+    const jwtToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify({
+        username: 'prova', exp: Math.floor(Date.now() / 1000) + 400, token_use: 'access', client_id: 'ClientId',
+    }));
+    return cognitoAuth.signOut('local').then(() => {
+        expect(cognitoAuth.refreshScheduler.running).toBeTruthy();
+        jest.runOnlyPendingTimers();
+        expect(refresh).not.toBeCalled();
+        cognitoAuth.setState('state');
+        cognitoAuth.getFQDNSignIn();
+        return cognitoAuth.parseCognitoWebResponse(`http://localhost:3000#state=state&access_token=${jwtToken}`);
+    }).then(() => {
+        jest.advanceTimersByTime(100000);
+        expect(refresh).toHaveBeenCalledTimes(1);
+        cognitoAuth.stopAutoRefresh();
+    });
+});
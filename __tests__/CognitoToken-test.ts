@@ -0,0 +1,74 @@
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoToken from '../src/CognitoToken';
+import CognitoIdToken from '../src/CognitoIdToken';
+import CognitoAccessToken from '../src/CognitoAccessToken';
+
+const encode = (payload: object) =>
+    btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." + btoa(JSON.stringify(payload));
+
+const identities = [{
+    userId: '1234', providerName: 'Google', providerType: 'Google', issuer: null, primary: 'true', dateCreated: '1583020800000',
+}];
+
+const idPayload = {
+    sub: 'sub', 'cognito:username': 'prova', 'cognito:groups': ['admin'], email: 'prova@example.com',
+    email_verified: 'true', identities, auth_time: 1583020800, token_use: 'id', 'custom:tenant': 'acme',
+};
+
+const accessPayload = {
+    sub: 'sub', username: 'prova', scope: 'openid profile orders/read', client_id: 'ClientId',
+    auth_time: 1583020800, token_use: 'access',
+};
+
+interface TenantClaims {
+    'custom:tenant': string;
+}
+
+it('test Id token claims', function () {
+    const idToken = new CognitoIdToken<TenantClaims>(encode(idPayload));
+    expect(idToken.getSub()).toEqual('sub');
+    expect(idToken.getUsername()).toEqual('prova');
+    expect(idToken.getEmail()).toEqual('prova@example.com');
+    expect(idToken.isEmailVerified()).toBeTruthy();
+    expect(idToken.getGroups()).toEqual(['admin']);
+    expect(idToken.getIdentities()[0].providerName).toEqual('Google');
+    expect(idToken.getAuthTime()).toEqual(1583020800);
+    expect(idToken.getTokenUse()).toEqual('id');
+    expect(idToken.getClaim('custom:tenant')).toEqual('acme');
+    expect(idToken.getCustomAttributes()).toEqual({ tenant: 'acme' });
+    expect(idToken.getCustomAttribute('tenant')).toEqual('acme');
+    expect(idToken.getCustomAttribute('custom:tenant')).toEqual('acme');
+});
+
+it('test access token claims', function () {
+    const accessToken = new CognitoAccessToken(encode(accessPayload));
+    expect(accessToken.getUsername()).toEqual('prova');
+    expect(accessToken.getScopes()).toEqual(['openid', 'profile', 'orders/read']);
+    expect(accessToken.getClientId()).toEqual('ClientId');
+    expect(accessToken.getTokenUse()).toEqual('access');
+    expect(accessToken.getGroups()).toEqual([]);
+    expect(accessToken.getCustomAttributes()).toEqual({});
+});
+
+it('test claims without a token', function () {
+    const idToken = new CognitoIdToken();
+    expect(idToken.getEmail()).toBeUndefined();
+    expect(idToken.isEmailVerified()).toBeFalsy();
+    expect(idToken.getIdentities()).toEqual([]);
+    expect(new CognitoAccessToken().getScopes()).toEqual([]);
+});
+
+it('test session returns the typed tokens', function () {
+    const session = new CognitoAuthSession({
+        IdToken: new CognitoToken(encode(idPayload)),
+        AccessToken: new CognitoToken(encode(accessPayload)),
+    });
+    expect(session.getIdToken()).toBeInstanceOf(CognitoIdToken);
+    expect(session.getIdToken<TenantClaims>().getClaims()['custom:tenant']).toEqual('acme');
+    session.setAccessToken(new CognitoToken(encode({ ...accessPayload, client_id: 'Other' })));
+    expect(session.getAccessToken()).toBeInstanceOf(CognitoAccessToken);
+    expect(session.getAccessToken().getClientId()).toEqual('Other');
+    const accessToken = new CognitoAccessToken(encode(accessPayload));
+    session.setAccessToken(accessToken);
+    expect(session.getAccessToken()).toBe(accessToken);
+});
@@ -0,0 +1,185 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import CognitoToken from '../src/CognitoToken';
+import CognitoTokenScopes from '../src/CognitoTokenScopes';
+import AuthStorageCache from '../src/AuthStorageCache';
+import EncryptedStorage from '../src/EncryptedStorage';
+import IndexedDBStorage from '../src/IndexedDBStorage';
+import { MemoryStorage } from '../src/StorageHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+const webcrypto = require('crypto').webcrypto;
+(window as any).crypto = webcrypto;
+
+const rawKey = new Uint8Array(32).fill(7);
+
+const accessToken = btoa(JSON.stringify({ "kid": "kid", "alg": "alg" })) + "." +
+    btoa(JSON.stringify({ username: 'alice', exp: Math.floor(Date.now() / 1000) + 3600, token_use: 'access', client_id: 'ClientId' }));
+
+// a minimal in-memory IndexedDB, the transactions run one after the other and complete
+// once their requests, made asynchronously, succeeded
+const createIndexedDB = () => {
+    const databases: { [name: string]: { [store: string]: Map<string, any> } } = {};
+    let previousTransaction = Promise.resolve();
+    const later = (callback: () => void) => setTimeout(callback);
+    return {
+        open: jest.fn((name: string) => {
+            const request: any = {};
+            later(() => {
+                const isNew = !databases[name];
+                databases[name] = databases[name] || {};
+                const stores = databases[name];
+                request.result = {
+                    createObjectStore: (store: string) => {
+                        stores[store] = new Map();
+                    },
+                    transaction: (store: string) => {
+                        let pending = 0;
+                        let release: () => void;
+                        const active = previousTransaction;
+                        previousTransaction = new Promise(resolve => release = resolve);
+                        const transaction: any = {};
+                        const run = (operation: () => any) => {
+                            const storeRequest: any = {};
+                            pending++;
+                            active.then(() => later(() => {
+                                storeRequest.result = operation();
+                                if (storeRequest.onsuccess) {
+                                    storeRequest.onsuccess();
+                                }
+                                if (--pending === 0) {
+                                    transaction.oncomplete();
+                                    release();
+                                }
+                            }));
+                            return storeRequest;
+                        };
+                        transaction.objectStore = () => ({
+                            get: (key: string) => run(() => stores[store].get(key)),
+                            put: (value: any, key: string) => run(() => stores[store].set(key, value)),
+                            delete: (key: string) => run(() => stores[store].delete(key)),
+                            getAllKeys: () => run(() => Array.from(stores[store].keys())),
+                        });
+                        return transaction;
+                    },
+                };
+                if (isNew) {
+                    request.onupgradeneeded();
+                }
+                request.onsuccess();
+            });
+            return request;
+        }),
+    };
+};
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+it('test values encrypted at rest', function () {
+    const storage = new EncryptedStorage({ storage: localStorage, key: rawKey });
+    return storage.setItem('key', 'välue').then(() => {
+        const stored = localStorage.getItem('key');
+        expect(stored).not.toContain('välue');
+        expect(stored).toMatch(/^[\w-]+\.[\w-]+$/);
+        return storage.getItem('key');
+    }).then(value => {
+        expect(value).toEqual('välue');
+        return storage.getItem('missing');
+    }).then(value => {
+        expect(value).toBeNull();
+    });
+});
+
+it('test tampered entry discarded', function () {
+    const storage = new EncryptedStorage({ storage: localStorage, key: rawKey });
+    return storage.setItem('key', 'value').then(() => {
+        const [iv, ciphertext] = localStorage.getItem('key').split('.');
+        const tampered = (ciphertext[0] === 'A' ? 'B' : 'A') + ciphertext.slice(1);
+        localStorage.setItem('key', `${iv}.${tampered}`);
+        return storage.getItem('key');
+    }).then(value => {
+        expect(value).toBeNull();
+        expect(localStorage.getItem('key')).toBeNull();
+    });
+});
+
+it('test plaintext and moved entries discarded', function () {
+    const storage = new EncryptedStorage({ storage: localStorage, key: rawKey });
+    localStorage.setItem('plaintext', accessToken);
+    return storage.setItem('key', 'value').then(() => {
+        localStorage.setItem('other', localStorage.getItem('key'));
+        return Promise.all([storage.getItem('plaintext'), storage.getItem('other'), storage.getItem('key')]);
+    }).then(values => {
+        expect(values).toEqual([null, null, 'value']);
+        expect(localStorage.getItem('plaintext')).toBeNull();
+    });
+});
+
+it('test entry encrypted with another key discarded', function () {
+    const storage = new EncryptedStorage({ storage: MemoryStorage, key: rawKey });
+    return storage.setItem('key', 'value').then(() =>
+        new EncryptedStorage({ storage: MemoryStorage, key: new Uint8Array(32).fill(8) }).getItem('key')
+    ).then(value => {
+        expect(value).toBeNull();
+        expect(MemoryStorage.getItem('key')).toBeUndefined();
+    });
+});
+
+it('test CognitoAuth session encrypted', function () {
+    const storage = new EncryptedStorage({ storage: localStorage, key: rawKey });
+    return CognitoAuth.create({ ...authData, Storage: storage }).then(cognitoAuth => {
+        (cognitoAuth as any).signInUserSession = new CognitoAuthSession({
+            IdToken: new CognitoToken(),
+            AccessToken: new CognitoToken(accessToken),
+            RefreshToken: new CognitoRefreshToken('refreshToken'),
+            TokenScopes: new CognitoTokenScopes(authData.TokenScopesArray),
+        });
+        cognitoAuth.cacheTokensScopes();
+        return (cognitoAuth.storage as AuthStorageCache).flush();
+    }).then(() => {
+        expect(localStorage.getItem('CognitoIdentityServiceProvider.ClientId.alice.accessToken')).not.toEqual(accessToken);
+        expect(localStorage.getItem('CognitoIdentityServiceProvider.ClientId.alice.refreshToken')).not.toEqual('refreshToken');
+        return CognitoAuth.create({ ...authData, Storage: storage });
+    }).then(cognitoAuth => {
+        expect(cognitoAuth.getUsername()).toEqual('alice');
+        expect(cognitoAuth.getSignInUserSession().getAccessToken().getJwtToken()).toEqual(accessToken);
+        expect(cognitoAuth.getSignInUserSession().getRefreshToken().getToken()).toEqual('refreshToken');
+    });
+});
+
+it('test generated key persisted in IndexedDB', function () {
+    (window as any).indexedDB = createIndexedDB();
+    const keyStorage = new IndexedDBStorage();
+    const storage = new EncryptedStorage({ storage: localStorage, keyStorage });
+    return storage.setItem('key', 'value').then(() => keyStorage.getValue<CryptoKey>('EncryptedStorage.key')).then(key => {
+        expect(key.extractable).toBeFalsy();
+        expect(key.algorithm.name).toEqual('AES-GCM');
+        return new EncryptedStorage({ storage: localStorage, keyStorage: new IndexedDBStorage() }).getItem('key');
+    }).then(value => {
+        expect(value).toEqual('value');
+        delete (window as any).indexedDB;
+    });
+});
+
+it('test concurrent pages share the generated key', function () {
+    (window as any).indexedDB = createIndexedDB();
+    const first = new EncryptedStorage({ storage: localStorage });
+    const second = new EncryptedStorage({ storage: localStorage });
+    return Promise.all([first.setItem('first', 'value'), second.setItem('second', 'value')]).then(() =>
+        Promise.all([first.getItem('second'), second.getItem('first')])
+    ).then(values => {
+        expect(values).toEqual(['value', 'value']);
+        delete (window as any).indexedDB;
+    });
+});
@@ -0,0 +1,178 @@
+import CognitoAuth from '../src/CognitoAuth';
+import CognitoConstants from '../src/CognitoConstants';
+import CognitoAuthSession from '../src/CognitoAuthSession';
+import CognitoRefreshToken from '../src/CognitoRefreshToken';
+import FetchHttpClient from '../src/FetchHttpClient';
+import NodeHttpClient from '../src/NodeHttpClient';
+import { encodeFormBody, getDefaultHttpClient, HttpRequest } from '../src/HttpClient';
+import OAuthError from '../src/OAuthError';
+import NetworkError from '../src/NetworkError';
+import ConfigurationError from '../src/ConfigurationError';
+import { getNodeCrypto, setNodeCrypto } from '../src/CryptoHelper';
+
+
+const authData: any = {
+    ClientId: "ClientId",
+    AppWebDomain: "localhost:3000",
+    TokenScopesArray: ['email', 'profile', 'openid'],
+    RedirectUriSignIn: "http://localhost:3000",
+    RedirectUriSignOut: "http://localhost:3000",
+};
+
+const createCognitoAuth = (request: (request: HttpRequest) => Promise<any>, HttpTimeout?: number) => {
+    const httpClient = { request: jest.fn(request) };
+    const cognitoAuth = new CognitoAuth({ ...authData, HttpClient: httpClient, HttpTimeout }, false);
+    const session = new CognitoAuthSession();
+    session.setRefreshToken(new CognitoRefreshToken('refresh+token/='));
+    (cognitoAuth as any).signInUserSession = session;
+    return { cognitoAuth, httpClient };
+};
+
+it('test encodeFormBody', function () {
+    expect(encodeFormBody({ a: 'b c', 'd&e': 'f=g', skipped: undefined })).toEqual('a=b%20c&d%26e=f%3Dg');
+});
+
+it('test injected http client', function () {
+    const { cognitoAuth, httpClient } = createCognitoAuth(() => Promise.resolve({ status: 200, body: '' }));
+    return cognitoAuth.revokeRefreshToken().then(() => {
+        expect(httpClient.request).toBeCalledWith({
+            method: 'POST',
+            url: 'https://localhost:3000/oauth2/revoke',
+            headers: CognitoConstants.HEADER,
+            body: 'token=refresh%2Btoken%2F%3D&client_id=ClientId',
+            signal: undefined,
+        });
+    });
+});
+
+it('test JSON error response', function () {
+    const error = { error: 'invalid_grant', error_description: 'Refresh Token has been revoked' };
+    const { cognitoAuth } = createCognitoAuth(() => Promise.resolve({ status: 400, body: JSON.stringify(error) }));
+    return cognitoAuth.revokeRefreshToken().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(OAuthError);
+        expect(e.code).toEqual('invalid_grant');
+        expect(e.description).toEqual('Refresh Token has been revoked');
+        expect(e.status).toEqual(400);
+        expect(e.response).toEqual(JSON.stringify(error));
+    });
+});
+
+it('test non OAuth error response', function () {
+    const { cognitoAuth } = createCognitoAuth(() => Promise.resolve({ status: 502, body: 'Bad Gateway' }));
+    return cognitoAuth.revokeRefreshToken().then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(NetworkError);
+        expect(e.status).toEqual(502);
+        expect(e.response).toEqual('Bad Gateway');
+    });
+});
+
+it('test timeout', function () {
+    const { cognitoAuth } = createCognitoAuth(({ signal }) => new Promise((resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error(CognitoConstants.HTTPTIMEOUTERROR)));
+    }), 10);
+    return cognitoAuth.makeGETRequest('https://localhost:3000/slow').then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(NetworkError);
+        expect(e.message).toEqual(CognitoConstants.HTTPTIMEOUTERROR);
+    });
+});
+
+it('test xhr http client timeout', function () {
+    const xhr = {
+        open: jest.fn(),
+        send: jest.fn(),
+        setRequestHeader: jest.fn(),
+        onreadystatechange: null,
+        readyState: 1,
+        status: 0,
+        responseText: '',
+        abort: jest.fn(() => {
+            xhr.readyState = 4;
+            if (xhr.onreadystatechange) {
+                xhr.onreadystatechange();
+            }
+        }),
+        [CognitoConstants.WITHCREDENTIALS]: CognitoConstants.WITHCREDENTIALS,
+    };
+    const XMLHttpRequest = (window as any).XMLHttpRequest;
+    (window as any).XMLHttpRequest = jest.fn(() => xhr);
+    const cognitoAuth = new CognitoAuth({ ...authData, HttpTimeout: 10 }, false);
+    const restore = () => {
+        (window as any).XMLHttpRequest = XMLHttpRequest;
+    };
+    return cognitoAuth.makeGETRequest('https://localhost:3000/slow').then(() => {
+        restore();
+        throw new Error('expected rejection');
+    }, e => {
+        restore();
+        expect(xhr.abort).toBeCalled();
+        expect(e).toBeInstanceOf(NetworkError);
+        expect(e.message).toEqual(CognitoConstants.HTTPTIMEOUTERROR);
+    });
+});
+
+it('test fetch http client', function () {
+    const fetchMock = jest.fn(() => Promise.resolve({ status: 200, text: () => Promise.resolve('{}') }));
+    const httpClient = new FetchHttpClient(fetchMock as any);
+    return httpClient.request({ method: 'GET', url: 'https://localhost:3000/' }).then(response => {
+        expect(fetchMock).toBeCalledWith('https://localhost:3000/', {
+            method: 'GET', headers: undefined, body: undefined, signal: undefined,
+        });
+        expect(response).toEqual({ status: 200, body: '{}' });
+    });
+});
+
+it('test no default http client', function () {
+    const XMLHttpRequest = (window as any).XMLHttpRequest;
+    const fetch = (window as any).fetch;
+    (window as any).XMLHttpRequest = undefined;
+    (window as any).fetch = undefined;
+    const httpClient = getDefaultHttpClient();
+    (window as any).XMLHttpRequest = XMLHttpRequest;
+    (window as any).fetch = fetch;
+    return httpClient.request({ method: 'GET', url: 'https://localhost:3000/' }).then(() => {
+        throw new Error('expected rejection');
+    }, e => {
+        expect(e).toBeInstanceOf(ConfigurationError);
+        expect(e.message).toEqual(CognitoConstants.HTTPCLIENTERROR);
+    });
+});
+
+it('test node http client', function () {
+    const http = require('http');
+    let receivedBody = '';
+    const server = http.createServer((req, res) => {
+        req.on('data', chunk => {
+            receivedBody += chunk;
+        });
+        req.on('end', () => {
+            res.statusCode = 400;
+            res.end('{"error":"invalid_request"}');
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', resolve)).then(() => {
+        const url = `http://127.0.0.1:${server.address().port}/oauth2/token`;
+        return new NodeHttpClient().request({ method: 'POST', url, headers: CognitoConstants.HEADER, body: 'a=b' });
+    }).then(response => {
+        server.close();
+        expect(receivedBody).toEqual('a=b');
+        expect(response).toEqual({ status: 400, body: '{"error":"invalid_request"}' });
+    }, e => {
+        server.close();
+        throw e;
+    });
+});
+
+it('test node entry point', function () {
+    expect(getNodeCrypto()).toBeUndefined();
+    const node = require('../src/node');
+    expect(node.NodeHttpClient).toBe(NodeHttpClient);
+    expect(node.CognitoAuth).toBe(CognitoAuth);
+    expect(getNodeCrypto().randomFillSync).toBe(require('crypto').randomFillSync);
+    setNodeCrypto(undefined);
+});
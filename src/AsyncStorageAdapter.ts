@@ -0,0 +1,108 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { AuthStorage } from './AuthStorage';
+
+/**
+ * A store with the API of React Native AsyncStorage.
+ */
+export interface AsyncKeyValueStore {
+  getItem(key: string): Promise<string | null | undefined>;
+  setItem(key: string, value: string): Promise<any>;
+  removeItem(key: string): Promise<any>;
+  getAllKeys?(): Promise<ReadonlyArray<string>>;
+}
+
+/**
+ * A store with the API of Expo SecureStore.
+ */
+export interface SecureKeyValueStore {
+  getItemAsync(key: string): Promise<string | null>;
+  setItemAsync(key: string, value: string): Promise<any>;
+  deleteItemAsync(key: string): Promise<any>;
+}
+
+/** @class */
+export default class AsyncStorageAdapter implements AuthStorage {
+  store: AsyncKeyValueStore | SecureKeyValueStore;
+
+  /**
+   * Constructs a new AsyncStorageAdapter object
+   * @param {object} store An AsyncStorage compatible store, or an Expo SecureStore compatible store.
+   */
+  constructor(store: AsyncKeyValueStore | SecureKeyValueStore) {
+    this.store = store;
+  }
+
+  /**
+   * This is used to get a specific key from storage
+   * @param {string} key - the key for the item
+   * @returns {Promise<string>} the data item
+   */
+  getItem(key: string): Promise<string | null | undefined> {
+    const store = this.store;
+    return isSecureStore(store) ? store.getItemAsync(encodeSecureStoreKey(key)) : store.getItem(key);
+  }
+
+  /**
+   * This is used to set a specific item in storage
+   * @param {string} key - the key for the item
+   * @param {string} value - the value
+   * @returns {Promise<void>} resolved once the item is set
+   */
+  setItem(key: string, value: string): Promise<void> {
+    const store = this.store;
+    return Promise.resolve(isSecureStore(store) ?
+      store.setItemAsync(encodeSecureStoreKey(key), value) : store.setItem(key, value)).then(() => undefined);
+  }
+
+  /**
+   * This is used to remove an item from storage
+   * @param {string} key - the key being removed
+   * @returns {Promise<void>} resolved once the item is removed
+   */
+  removeItem(key: string): Promise<void> {
+    const store = this.store;
+    return Promise.resolve(isSecureStore(store) ?
+      store.deleteItemAsync(encodeSecureStoreKey(key)) : store.removeItem(key)).then(() => undefined);
+  }
+
+  /**
+   * This is used to list the keys of the storage
+   * @returns {Promise<array>} the keys, null when the store cannot be enumerated, as SecureStore
+   */
+  getAllKeys(): Promise<string[] | null> {
+    const store = this.store;
+    if (isSecureStore(store) || typeof store.getAllKeys !== 'function') {
+      return Promise.resolve(null);
+    }
+    return store.getAllKeys().then(keys => keys.slice());
+  }
+}
+
+function isSecureStore(store: AsyncKeyValueStore | SecureKeyValueStore): store is SecureKeyValueStore {
+  return typeof (store as SecureKeyValueStore).getItemAsync === 'function';
+}
+
+/**
+ * SecureStore keys may only contain alphanumeric characters, '.', '-' and '_',
+ * the other characters (e.g. the '@' of a username) and '_' itself are escaped.
+ * @param {string} key the storage key
+ * @returns {string} the SecureStore key
+ */
+function encodeSecureStoreKey(key: string): string {
+  return key.replace(/[^0-9A-Za-z.-]/g, character => `_${character.charCodeAt(0).toString(16)}_`);
+}
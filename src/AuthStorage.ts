@@ -0,0 +1,63 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+/**
+ * The storage of the tokens, the state and the PKCE code verifier. The methods may return promises,
+ * as React Native AsyncStorage or IndexedDB do, such a storage is then loaded by CognitoAuth.create().
+ */
+export interface AuthStorage {
+  getItem(key: string): string | null | undefined | Promise<string | null | undefined>;
+  setItem(key: string, value: string): any;
+  removeItem(key: string): any;
+
+  /**
+   * Optional: Lists the keys of the storage, to load all the entries of the app client at once.
+   * Returns null when the storage cannot be enumerated.
+   */
+  getAllKeys?(): string[] | null | Promise<string[] | null>;
+}
+
+/**
+ * A storage whose reads return the values, not promises.
+ */
+export interface SyncAuthStorage extends AuthStorage {
+  getItem(key: string): string | null | undefined;
+  getAllKeys?(): string[] | null;
+}
+
+/**
+ * @param {any} value a value returned by a storage method
+ * @returns {boolean} whether the value is a promise
+ */
+export function isPromiseLike(value: any): value is PromiseLike<any> {
+  return value != null && typeof value.then === 'function';
+}
+
+/**
+ * Probe whether a storage is asynchronous, reading a key. A rejected read is ignored.
+ * @param {object} storage the storage
+ * @param {string} key the key to read
+ * @returns {boolean} whether the storage returns promises
+ */
+export function isAsyncStorage(storage: AuthStorage, key: string): boolean {
+  const value = storage.getItem(key);
+  if (isPromiseLike(value)) {
+    value.then(undefined, () => undefined);
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,114 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { AuthStorage, isPromiseLike } from './AuthStorage';
+
+/** @class */
+export default class AuthStorageCache {
+  storage: AuthStorage;
+  private items: { [key: string]: string } = {};
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private writeError: any = null;
+
+  /**
+   * Constructs a new AuthStorageCache object, a synchronous mirror of an asynchronous storage:
+   * the items are read from the memory once loaded and written through to the storage.
+   * @param {object} storage The asynchronous storage.
+   */
+  constructor(storage: AuthStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Load items from the storage into the memory
+   * @param {array} keys the keys of the items
+   * @returns {Promise<void>} resolved once the items are loaded
+   */
+  load(keys: string[]): Promise<void> {
+    return Promise.all(keys.map(key => Promise.resolve(this.storage.getItem(key)).then(value => {
+      if (value == null) {
+        delete this.items[key];
+      } else {
+        this.items[key] = value;
+      }
+    }))).then(() => undefined);
+  }
+
+  /**
+   * @returns {array} the keys of the items in memory
+   */
+  getKeys(): string[] {
+    return Object.keys(this.items);
+  }
+
+  /**
+   * This is used to get a specific key from the memory
+   * @param {string} key - the key for the item
+   * @returns {string} the data item
+   */
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.items, key) ? this.items[key] : null;
+  }
+
+  /**
+   * This is used to set a specific item in the memory and in the storage
+   * @param {string} key - the key for the item
+   * @param {string} value - the value
+   * @returns {void}
+   */
+  setItem(key: string, value: string) {
+    this.items[key] = value;
+    this.write(() => this.storage.setItem(key, value));
+  }
+
+  /**
+   * This is used to remove an item from the memory and from the storage
+   * @param {string} key - the key being removed
+   * @returns {void}
+   */
+  removeItem(key: string) {
+    delete this.items[key];
+    this.write(() => this.storage.removeItem(key));
+  }
+
+  /**
+   * Wait for the writes to the storage
+   * @returns {Promise<void>} rejected with the error of a failed write
+   */
+  flush(): Promise<void> {
+    return this.pendingWrites.then(() => {
+      const error = this.writeError;
+      this.writeError = null;
+      if (error) {
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * The writes are serialized, so that the storage ends with the last value of each item.
+   * @param {function} operation the write to the storage
+   * @returns {void}
+   */
+  private write(operation: () => any) {
+    this.pendingWrites = this.pendingWrites.then(() => {
+      const result = operation();
+      return isPromiseLike(result) ? result : undefined;
+    }).then(() => undefined, error => {
+      this.writeError = this.writeError || error;
+    });
+  }
+}
@@ -0,0 +1,120 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import { CognitoSessionValidationResult } from './CognitoAuthSession';
+
+export interface CognitoAuthorizationPolicy {
+  /**
+   * The scopes that all have to be granted, e.g. 'openid' or the resource server scope 'orders/read';
+   * 'orders/*' requires any scope of the orders resource server.
+   */
+  scopes?: ReadonlyArray<string>;
+
+  /**
+   * The Cognito groups of which the user has to be a member of one at least.
+   */
+  groups?: ReadonlyArray<string>;
+}
+
+export type CognitoAuthorizationDenialReason = 'unauthenticated' | 'missingScope' | 'missingGroup';
+
+export interface CognitoAuthorizationResult {
+  /**
+   * Whether the policy is satisfied.
+   */
+  allowed: boolean;
+
+  /**
+   * Why the policy is not satisfied.
+   */
+  reason?: CognitoAuthorizationDenialReason;
+
+  /**
+   * The scopes that are not granted, or the groups of which the user is not a member.
+   */
+  missing?: string[];
+
+  /**
+   * The validation of the session, when unauthenticated.
+   */
+  validation?: CognitoSessionValidationResult;
+}
+
+export interface CognitoScope {
+  /**
+   * The resource server identifier, undefined for the OpenID Connect and Cognito scopes.
+   */
+  resourceServer?: string;
+
+  /**
+   * The scope name.
+   */
+  name: string;
+}
+
+/**
+ * Split a resource server scope: the identifier may be an url, the name follows the last slash.
+ * @param {string} scope the scope, e.g. 'orders/read' or 'https://api.example.com/orders.read'
+ * @returns {object} the resource server identifier and the scope name
+ */
+export const parseScope = (scope: string): CognitoScope => {
+  const index = scope.lastIndexOf(CognitoConstants.SLASH);
+  if (index <= 0) {
+    return { name: scope };
+  }
+  return { resourceServer: scope.substring(0, index), name: scope.substring(index + 1) };
+};
+
+/**
+ * @param {array} grantedScopes the scopes granted to the access token
+ * @param {string} scope the required scope, the name may be the * wildcard
+ * @returns {boolean} whether the scope is granted
+ */
+export const isScopeGranted = (grantedScopes: ReadonlyArray<string>, scope: string): boolean => {
+  const required = parseScope(scope);
+  if (required.name !== CognitoConstants.SCOPEWILDCARD || !required.resourceServer) {
+    return grantedScopes.indexOf(scope) >= 0;
+  }
+  return grantedScopes.some(granted => parseScope(granted).resourceServer === required.resourceServer);
+};
+
+/**
+ * Evaluate a policy against the granted scopes and groups of a valid session.
+ * @param {object} granted the validation of the session, the granted scopes and the groups of the user
+ * @param {object} policy the required scopes and groups
+ * @returns {object} the result, with the denial reason and the missing scopes or groups
+ */
+export const evaluatePolicy = (
+  { validation, scopes, groups }: {
+    validation: CognitoSessionValidationResult,
+    scopes: ReadonlyArray<string>,
+    groups: ReadonlyArray<string>,
+  },
+  policy: CognitoAuthorizationPolicy): CognitoAuthorizationResult => {
+  if (!validation.valid) {
+    return { allowed: false, reason: 'unauthenticated', validation };
+  }
+  const missingScopes = (policy.scopes || []).filter(scope => !isScopeGranted(scopes, scope));
+  if (missingScopes.length > 0) {
+    return { allowed: false, reason: 'missingScope', missing: missingScopes };
+  }
+  const requiredGroups = policy.groups || [];
+  if (requiredGroups.length > 0 && !requiredGroups.some(group => groups.indexOf(group) >= 0)) {
+    return { allowed: false, reason: 'missingGroup', missing: requiredGroups.slice() };
+  }
+  return { allowed: true };
+};
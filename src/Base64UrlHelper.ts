@@ -0,0 +1,123 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+
+const BASE64URLCHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Encodes bytes as base64url without padding (RFC 7636 Appendix A).
+ * @param {Uint8Array} bytes the bytes to encode
+ * @returns {string} the encoded string
+ */
+export const base64UrlEncode = (bytes: Uint8Array): string => {
+  let result = '';
+  let i;
+  for (i = 0; i + 2 < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    result += BASE64URLCHARS[(chunk >> 18) & 63] + BASE64URLCHARS[(chunk >> 12) & 63] +
+      BASE64URLCHARS[(chunk >> 6) & 63] + BASE64URLCHARS[chunk & 63];
+  }
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const chunk = bytes[i] << 16;
+    result += BASE64URLCHARS[(chunk >> 18) & 63] + BASE64URLCHARS[(chunk >> 12) & 63];
+  } else if (remaining === 2) {
+    const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    result += BASE64URLCHARS[(chunk >> 18) & 63] + BASE64URLCHARS[(chunk >> 12) & 63] +
+      BASE64URLCHARS[(chunk >> 6) & 63];
+  }
+  return result;
+};
+
+/**
+ * Encodes bytes as padded base64 (RFC 4648 section 4).
+ * @param {Uint8Array} bytes the bytes to encode
+ * @returns {string} the encoded string
+ */
+export const base64Encode = (bytes: Uint8Array): string => {
+  let result = base64UrlEncode(bytes).replace(/-/g, '+').replace(/_/g, '/');
+  while (result.length % 4) {
+    result += '=';
+  }
+  return result;
+};
+
+/**
+ * Decodes a base64url (or base64) string, with or without padding.
+ * @param {string} str the string to decode
+ * @returns {Uint8Array} the decoded bytes
+ */
+export const base64UrlDecode = (str: string): Uint8Array => {
+  const input = str.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor(input.length * 3 / 4));
+  let chunk = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < input.length; i++) {
+    const value = BASE64URLCHARS.indexOf(input[i]);
+    if (value < 0) {
+      throw new Error(CognitoConstants.BASE64URLERROR);
+    }
+    chunk = (chunk << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (chunk >> bits) & 255;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Converts ASCII/Latin-1 strings (e.g. JWT signing inputs) to bytes.
+ * @param {string} str the string to convert
+ * @returns {Uint8Array} the bytes
+ */
+export const stringToBytes = (str: string): Uint8Array => {
+  const bytes = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) {
+    bytes[i] = str.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Converts bytes to an ASCII/Latin-1 string.
+ * @param {Uint8Array} bytes the bytes to convert
+ * @returns {string} the string
+ */
+export const bytesToString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+};
+
+/**
+ * Encodes a string as UTF-8 bytes.
+ * @param {string} str the string to encode
+ * @returns {Uint8Array} the bytes
+ */
+export const utf8ToBytes = (str: string): Uint8Array => stringToBytes(unescape(encodeURIComponent(str)));
+
+/**
+ * Decodes UTF-8 bytes to a string.
+ * @param {Uint8Array} bytes the bytes to decode
+ * @returns {string} the string
+ */
+export const bytesToUtf8 = (bytes: Uint8Array): string => decodeURIComponent(escape(bytesToString(bytes)));
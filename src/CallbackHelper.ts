@@ -0,0 +1,87 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+
+// the redirect uris are compared without their query, fragment and trailing slash
+const getBaseUri = (uri: string) => uri.split(/[?#]/)[0].replace(/\/$/, '');
+
+/**
+ * @param {string} url the url
+ * @param {string} redirectUri the redirect uri
+ * @returns {boolean} whether the url is the redirect uri, with any query or fragment
+ */
+export const matchesRedirectUri = (url: string, redirectUri: string): boolean =>
+  Boolean(url && redirectUri) && getBaseUri(url) === getBaseUri(redirectUri);
+
+/**
+ * @param {string} url the url
+ * @returns {boolean} whether the url has the parameters of an authorization response, in its query or fragment
+ */
+export const hasCallbackParameters = (url: string): boolean => CognitoConstants.CALLBACKPARAMETERREGEX.test(url);
+
+/**
+ * Remove the parameters of the authorization response from a query or a fragment.
+ * @param {string} parameters the query or the fragment, without its ? or # separator
+ * @returns {string} the remaining parameters
+ */
+const removeParameters = (parameters: string): string => parameters.split(CognitoConstants.AMPERSAND)
+  .filter(parameter => parameter &&
+    CognitoConstants.CALLBACKPARAMETERS.indexOf(decodeURIComponent(parameter.split(CognitoConstants.EQUALSIGN)[0])) < 0)
+  .join(CognitoConstants.AMPERSAND);
+
+/**
+ * Remove the code, the tokens, the state and the error of the authorization response from an url,
+ * keeping the other parameters of its query and fragment.
+ * @param {string} url the callback url
+ * @returns {string} the url without the authorization response
+ */
+export const removeCallbackParameters = (url: string): string => {
+  const fragmentIndex = url.indexOf(CognitoConstants.POUNDSIGN);
+  const withoutFragment = fragmentIndex >= 0 ? url.substring(0, fragmentIndex) : url;
+  const fragment = fragmentIndex >= 0 ? removeParameters(url.substring(fragmentIndex + 1)) : '';
+  const queryIndex = withoutFragment.indexOf(CognitoConstants.QUESTIONMARK);
+  const base = queryIndex >= 0 ? withoutFragment.substring(0, queryIndex) : withoutFragment;
+  const query = queryIndex >= 0 ? removeParameters(withoutFragment.substring(queryIndex + 1)) : '';
+  return base.concat(query ? CognitoConstants.QUESTIONMARK + query : '',
+    fragment ? CognitoConstants.POUNDSIGN + fragment : '');
+};
+
+/**
+ * @param {string} path the return path
+ * @returns {boolean} whether the path is relative to the origin, so that it cannot leave the app
+ */
+export const isReturnPath = (path: string): boolean =>
+  typeof path === CognitoConstants.STRINGTYPE && path.charAt(0) === CognitoConstants.SLASH &&
+  path.charAt(1) !== CognitoConstants.SLASH && path.charAt(1) !== '\\';
+
+/**
+ * @returns {string} the url of the current page, undefined outside a browser
+ */
+export const getCurrentUrl = (): string =>
+  typeof window !== CognitoConstants.UNDEFINED && window.location ? window.location.href : undefined;
+
+/**
+ * Replace the current url in the browser history, without reloading the page.
+ * @param {string} url the new url, of the same origin
+ * @returns {void}
+ */
+export const replaceCurrentUrl = (url: string) => {
+  if (typeof window !== CognitoConstants.UNDEFINED && window.history &&
+    typeof window.history.replaceState === 'function') {
+    window.history.replaceState(window.history.state, document.title, url);
+  }
+};
@@ -0,0 +1,80 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+import { base64Encode, stringToBytes } from './Base64UrlHelper';
+
+/**
+ * client_secret_basic: the client secret is sent with HTTP Basic authentication,
+ * client_secret_post: the client secret is sent in the request body.
+ */
+export type CognitoClientAuthMethod = 'client_secret_basic' | 'client_secret_post';
+
+export interface ClientAuthentication {
+  clientId: string;
+  clientSecret?: string;
+  clientAuthMethod?: CognitoClientAuthMethod;
+}
+
+/**
+ * @returns {boolean} whether the code runs in a browser page
+ */
+export const isBrowser = (): boolean => typeof window !== CognitoConstants.UNDEFINED &&
+  typeof window.document !== CognitoConstants.UNDEFINED;
+
+/**
+ * Check the client secret options: an unknown authentication method is refused, and so is a secret
+ * in a browser, where it cannot be kept secret, unless explicitly allowed.
+ * @param {string} clientSecret the client secret
+ * @param {string} clientAuthMethod the client authentication method
+ * @param {boolean} allowInBrowser whether the secret can be used in a browser
+ * @returns {void}
+ */
+export const checkClientSecret = (clientSecret: string, clientAuthMethod: string, allowInBrowser: boolean) => {
+  if (clientAuthMethod && clientAuthMethod !== CognitoConstants.CLIENTSECRETBASIC &&
+    clientAuthMethod !== CognitoConstants.CLIENTSECRETPOST) {
+    throw new ConfigurationError(CognitoConstants.CLIENTAUTHMETHODERROR);
+  }
+  if (clientSecret && !allowInBrowser && isBrowser()) {
+    throw new ConfigurationError(CognitoConstants.CLIENTSECRETBROWSERERROR);
+  }
+};
+
+/**
+ * Add the client authentication to the headers and the body of a token endpoint request:
+ * the client_id in the body, and the client secret, if any, with the authentication method.
+ * @param {object} client the client id, secret and authentication method
+ * @param {JSON} header the request headers
+ * @param {JSON} body the request body
+ * @returns {object} the authenticated headers and body
+ */
+export const authenticateClient = ({ clientId, clientSecret, clientAuthMethod }: ClientAuthentication,
+  header: { [key: string]: string }, body: { [key: string]: any }) => {
+  const headers = { ...header };
+  const params = { ...body, client_id: clientId };
+  if (clientSecret) {
+    if (clientAuthMethod === CognitoConstants.CLIENTSECRETPOST) {
+      params[CognitoConstants.CLIENTSECRET] = clientSecret;
+    } else {
+      // RFC 6749 section 2.3.1: the client id and secret are form encoded before the base64 encoding
+      const credentials = encodeURIComponent(clientId).concat(':', encodeURIComponent(clientSecret));
+      headers[CognitoConstants.AUTHORIZATION] = CognitoConstants.BASIC.concat(
+        base64Encode(stringToBytes(credentials)));
+    }
+  }
+  return { headers, body: params };
+};
@@ -0,0 +1,76 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoToken from './CognitoToken';
+
+/**
+ * The claims of a Cognito access token; the claims added by a pre token generation trigger
+ * are typed by the application claims.
+ */
+export interface CognitoAccessTokenPayload {
+  sub: string;
+  iss: string;
+  exp: number;
+  iat: number;
+  auth_time: number;
+  jti: string;
+  token_use: 'access';
+  scope: string;
+  client_id: string;
+  username: string;
+  'cognito:groups'?: string[];
+}
+
+/** @class */
+export default class CognitoAccessToken<Claims extends object = {}> extends CognitoToken {
+  /**
+   * Constructs a new CognitoAccessToken object
+   * @param {string=} AccessToken The JWT access token.
+   */
+  constructor(AccessToken: string = '') {
+    super(AccessToken);
+  }
+
+  /**
+   * @returns {object} the token's claims, typed with the application claims.
+   */
+  getClaims(): CognitoAccessTokenPayload & Claims {
+    return (this.jwtToken ? this.decodePayload() : {}) as CognitoAccessTokenPayload & Claims;
+  }
+
+  /**
+   * @param {string} name the claim name.
+   * @returns {any} the claim from payload, undefined without a token.
+   */
+  getClaim<K extends keyof (CognitoAccessTokenPayload & Claims)>(name: K): (CognitoAccessTokenPayload & Claims)[K] {
+    return this.getClaims()[name];
+  }
+
+  /**
+   * @returns {array} the scopes granted to the token (scope member).
+   */
+  getScopes(): string[] {
+    const scope = this.getClaim('scope');
+    return scope ? scope.split(' ').filter(item => item) : [];
+  }
+
+  /**
+   * @returns {string} the app client id the token was issued to (client_id member).
+   */
+  getClientId(): string {
+    return this.getClaim('client_id');
+  }
+}
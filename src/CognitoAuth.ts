@@ -16,20 +16,44 @@
   */
 
 import CognitoTokenScopes from './CognitoTokenScopes';
-import CognitoToken from './CognitoToken';
+import CognitoIdToken from './CognitoIdToken';
+import CognitoAccessToken from './CognitoAccessToken';
 import CognitoRefreshToken from './CognitoRefreshToken';
-import CognitoAuthSession, { CognitoSessionData } from './CognitoAuthSession';
+import CognitoAuthSession, { CognitoSessionData, CognitoSessionValidationOptions } from './CognitoAuthSession';
 import StorageHelper from './StorageHelper';
+import { AuthStorage, SyncAuthStorage, isAsyncStorage } from './AuthStorage';
+import AuthStorageCache from './AuthStorageCache';
 import CognitoConstants from './CognitoConstants';
 import { launchUri } from './UriHelper';
+import { createCodeChallenge } from './PKCEHelper';
+import { getRandomValues } from './RandomHelper';
+import StateMismatchError from './StateMismatchError';
+import CognitoAuthError from './CognitoAuthError';
+import OAuthError from './OAuthError';
+import TokenValidationError from './TokenValidationError';
+import ConfigurationError from './ConfigurationError';
+import CognitoJwtVerifier, { CognitoJwks } from './CognitoJwtVerifier';
+import CognitoRefreshScheduler from './CognitoRefreshScheduler';
+import CognitoTabSync from './CognitoTabSync';
+import { withTabLock } from './TabLockHelper';
+import { CognitoPopupOptions, openPopup, openHiddenIframe, waitForPopupCallback, getOrigin } from './PopupHelper';
+import { CognitoAuthorizationPolicy, CognitoAuthorizationResult } from './AuthorizationHelper';
+import {
+    matchesRedirectUri, hasCallbackParameters, removeCallbackParameters, isReturnPath, getCurrentUrl, replaceCurrentUrl,
+} from './CallbackHelper';
+import PopupError from './PopupError';
+import InteractionRequiredError from './InteractionRequiredError';
+import { CognitoClientAuthMethod, checkClientSecret, authenticateClient } from './ClientAuthHelper';
+import { HttpClient, encodeFormBody, sendHttpRequest, getDefaultHttpClient } from './HttpClient';
+import { getDomainUrl, isUserPoolIssuer } from './EndpointHelper';
+import { CognitoUserInfo, parseUserInfo } from './CognitoUserInfo';
+import { CognitoOpenIdConfiguration, getOpenIdConfigurationUrl, parseOpenIdConfiguration } from './CognitoOpenIdConfiguration';
+import CognitoAuthEventEmitter, { CognitoAuthEventListener, CognitoAuthEventMap } from './CognitoAuthEventEmitter';
 //import CognitoAuthPromisesCode from "./CognitoAuthPromisesCode";
 //import CognitoAuthPromisesToken from "./CognitoAuthPromisesToken";
 //import CognitoAuthToken from "./CognitoAuthToken";
 //import CognitoAuthCode from "./CognitoAuthCode";
 declare var AmazonCognitoAdvancedSecurityData: any;
-declare var XDomainRequest: any;
-
-
 export interface CognitoAuthOptions {
     /**
      * Required: User pool application client id.
@@ -72,16 +96,126 @@ export interface CognitoAuthOptions {
     AdvancedSecurityDataCollectionFlag?: boolean;
 
     /**
-     * Optional: e.g. new CookieStorage(), to use the specified storage provided
+     * Optional: e.g. new CookieStorage(), to use the specified storage provided.
+     * An asynchronous storage, e.g. new AsyncStorageAdapter(AsyncStorage), requires CognitoAuth.create().
      */
-    Storage: any,
+    Storage?: AuthStorage,
 
     /**
      * data.LaunchUri Optional: Function to open a url, by default uses window.open in browser, Linking.openUrl in React Native
      */
     LaunchUri?: (url: any) => any
+
+    /**
+     * Optional: boolean flag allowing the PKCE plain code challenge method when SubtleCrypto is not available
+     * to create the S256 code challenge. By default, this flag is set to false.
+     */
+    AllowPlainCodeChallenge?: boolean;
+
+    /**
+     * Optional: boolean flag enabling the verification of the tokens signature against the user pool JWKS,
+     * fetched from the UserPoolId or provided with Jwks. By default, this flag is set to false.
+     */
+    VerifyTokenSignature?: boolean;
+
+    /**
+     * Optional: The JWKS of the user pool, to verify the tokens signature offline.
+     */
+    Jwks?: CognitoJwks;
+
+    /**
+     * Optional: The clock skew tolerance, in seconds, used to validate the tokens exp, nbf and iat claims.
+     * By default, it is set to 60 seconds.
+     */
+    ClockSkew?: number;
+
+    /**
+     * Optional: boolean flag enabling the refresh of the tokens in background, before the access token
+     * expiration. By default, this flag is set to false.
+     */
+    AutoRefresh?: boolean;
+
+    /**
+     * Optional: Number of seconds before the access token expiration to refresh the tokens in background.
+     * By default, it is set to 300 seconds.
+     */
+    AutoRefreshSeconds?: number;
+
+    /**
+     * Optional: The http client used for the requests to the Cognito endpoints, by default XMLHttpRequest
+     * in browsers and React Native, fetch or the Node.js http(s) module otherwise.
+     */
+    HttpClient?: HttpClient;
+
+    /**
+     * Optional: The timeout of the requests to the Cognito endpoints, in milliseconds.
+     * By default, the requests do not time out.
+     */
+    HttpTimeout?: number;
+
+    /**
+     * Optional: The app client secret, to authenticate the token endpoint requests of confidential clients.
+     * It is refused in a browser, where it cannot be kept secret, unless AllowClientSecretInBrowser is set.
+     */
+    ClientSecret?: string;
+
+    /**
+     * Optional: How the client secret is sent, 'client_secret_basic' (HTTP Basic authentication)
+     * or 'client_secret_post' (in the request body). By default, it is set to 'client_secret_basic'.
+     */
+    ClientAuthMethod?: CognitoClientAuthMethod;
+
+    /**
+     * Optional: boolean flag allowing the client secret in a browser. By default, this flag is set to false.
+     */
+    AllowClientSecretInBrowser?: boolean;
+
+    /**
+     * Optional: Load the endpoints from the OpenID Connect discovery document instead of AppWebDomain:
+     * true to load it from the user pool issuer, an issuer or document url (e.g. a custom domain or
+     * a local emulator), or the document itself for offline use.
+     */
+    Discovery?: boolean | string | CognitoOpenIdConfiguration;
+
+    /**
+     * Optional: boolean flag synchronizing the session between the tabs of the browser, and refreshing
+     * the tokens in one tab at a time. By default, this flag is set to false.
+     */
+    SyncTabs?: boolean;
+
+    /**
+     * Optional: boolean flag renewing the session in a hidden iframe, against the hosted UI session, when it
+     * cannot be refreshed with a refresh token, e.g. with the implicit flow. By default, this flag is set to false.
+     */
+    SilentRenew?: boolean;
+
+    /**
+     * Optional: Number of milliseconds to wait for the silent renew, 10 seconds by default.
+     */
+    SilentRenewTimeout?: number;
+
+    /**
+     * Optional: What getSession() does when the cached tokens were not granted all the TokenScopesArray scopes:
+     * 'signIn' (default) discards them and launches the hosted UI, 'warn' keeps them and emits a
+     * scopeMismatch event, 'ignore' keeps them.
+     */
+    ScopeMismatch?: CognitoScopeMismatchMode;
 }
 
+/**
+ * 'signIn': discard the cached tokens and launch the hosted UI,
+ * 'warn': keep the cached tokens and emit a scopeMismatch event,
+ * 'ignore': keep the cached tokens.
+ */
+export type CognitoScopeMismatchMode = 'signIn' | 'warn' | 'ignore';
+
+/**
+ * 'local': clear the cached tokens only,
+ * 'revoke': revoke the refresh token and clear the cached tokens,
+ * 'full': revoke the refresh token, clear the cached tokens and sign out from the hosted UI.
+ */
+export type CognitoSignOutMode = 'local' | 'revoke' | 'full';
+
 interface CognitoAuthUserHandler {
     onSuccess: (authSession: CognitoAuthSession) => void;
     onFailure: (err: any) => void;
@@ -92,17 +226,40 @@ export default class CognitoAuth {
 
     username: string;
     clientId: string;
+    private clientSecret: string;
+    clientAuthMethod: CognitoClientAuthMethod;
     appWebDomain: string;
     tokenScopesArray: ReadonlyArray<string>;
+    scopeMismatch: CognitoScopeMismatchMode;
+    private additionalScopes: ReadonlyArray<string>;
     protected redirectUriSignIn: string;
     redirectUriSignOut: string;
     identityProvider: string;
     userPoolId: string;
     advancedSecurityDataCollectionFlag?: boolean;
-    storage: any;
+    allowPlainCodeChallenge: boolean;
+    codeChallenge: string;
+    codeChallengeMethod: string;
+    jwtVerifier: CognitoJwtVerifier;
+    clockSkew: number;
+    refreshScheduler: CognitoRefreshScheduler;
+    tabSync: CognitoTabSync;
+    silentRenew: boolean;
+    silentRenewTimeout: number;
+    private pendingSilentRenew: Promise<CognitoAuthSession>;
+    private handledCallback: { url: string, promise: Promise<CognitoAuthSession> };
+    httpClient: HttpClient;
+    httpTimeout: number;
+    private userInfo: { accessToken: string, userInfo: Promise<CognitoUserInfo> };
+    openIdConfiguration: CognitoOpenIdConfiguration;
+    discoveryUrl: string;
+    private pendingOpenIdConfiguration: Promise<CognitoOpenIdConfiguration>;
+    storage: SyncAuthStorage | AuthStorageCache;
     protected signInUserSession: CognitoAuthSession;
     state: any;
+    nonce: string;
     userhandler: CognitoAuthUserHandler;
+    private events: CognitoAuthEventEmitter<CognitoAuthEventMap>;
     responseType: string;
 
     /**
@@ -122,45 +279,235 @@ export default class CognitoAuth {
      * @param {boolean} data.AdvancedSecurityDataCollectionFlag Optional: boolean flag indicating if the
      *        data collection is enabled to support cognito advanced security features. By default, this
      *        flag is set to true.
+     * @param {boolean} data.AllowPlainCodeChallenge Optional: boolean flag allowing the PKCE plain code
+     *        challenge method when SubtleCrypto is not available. By default, this flag is set to false.
+     * @param {boolean} data.VerifyTokenSignature Optional: boolean flag enabling the verification of the
+     *        tokens signature against the user pool JWKS. By default, this flag is set to false.
+     * @param {object} data.Jwks Optional: The JWKS of the user pool, to verify the tokens signature offline.
+     * @param {int} data.ClockSkew Optional: The clock skew tolerance, in seconds, used to validate the tokens.
+     * @param {boolean} data.AutoRefresh Optional: boolean flag enabling the refresh of the tokens in background.
+     * @param {int} data.AutoRefreshSeconds Optional: Number of seconds before the access token expiration
+     *        to refresh the tokens in background.
+     * @param {object} data.HttpClient Optional: The http client used for the requests to the Cognito endpoints.
+     * @param {int} data.HttpTimeout Optional: The timeout of the requests to the Cognito endpoints, in milliseconds.
+     * @param {string} data.ClientSecret Optional: The app client secret of confidential clients.
+     * @param {string} data.ClientAuthMethod Optional: 'client_secret_basic' or 'client_secret_post'.
+     * @param {boolean} data.AllowClientSecretInBrowser Optional: boolean flag allowing the client secret in a browser.
+     * @param {boolean|string|object} data.Discovery Optional: Load the endpoints from the OpenID Connect
+     *        discovery document, of the user pool issuer (true), of an issuer or document url, or given.
+     * @param {boolean} data.SyncTabs Optional: boolean flag synchronizing the session between the tabs.
+     * @param {boolean} data.SilentRenew Optional: boolean flag renewing the session in a hidden iframe
+     *        when it cannot be refreshed with a refresh token.
+     * @param {int} data.SilentRenewTimeout Optional: Number of milliseconds to wait for the silent renew.
+     * @param {string} data.ScopeMismatch Optional: 'signIn' (default), 'warn' or 'ignore', what getSession()
+     *        does when the cached tokens were not granted all the scopes.
      * @param {nodeCallback<CognitoAuthSession>} Optional: userhandler Called on success or error.
      */
     constructor(data: CognitoAuthOptions, implicitFlow: boolean = true) {
         const { ClientId, AppWebDomain, TokenScopesArray,
             RedirectUriSignIn, RedirectUriSignOut, IdentityProvider, UserPoolId,
-            AdvancedSecurityDataCollectionFlag, Storage, LaunchUri } = data;
+            AdvancedSecurityDataCollectionFlag, Storage, LaunchUri, AllowPlainCodeChallenge,
+            VerifyTokenSignature, Jwks, ClockSkew, AutoRefresh, AutoRefreshSeconds,
+            HttpClient, HttpTimeout, ClientSecret, ClientAuthMethod, AllowClientSecretInBrowser,
+            Discovery, SyncTabs, SilentRenew, SilentRenewTimeout, ScopeMismatch } = data;
         if (data == null || !ClientId || !AppWebDomain || !RedirectUriSignIn || !RedirectUriSignOut) {
-            throw new Error(CognitoConstants.PARAMETERERROR);
+            throw new ConfigurationError(CognitoConstants.PARAMETERERROR);
         }
 
+        checkClientSecret(ClientSecret, ClientAuthMethod, AllowClientSecretInBrowser);
         this.clientId = ClientId;
+        this.clientSecret = ClientSecret;
+        this.clientAuthMethod = ClientAuthMethod || CognitoConstants.CLIENTSECRETBASIC as CognitoClientAuthMethod;
         this.appWebDomain = AppWebDomain;
         this.tokenScopesArray = TokenScopesArray || [];
         if (!Array.isArray(TokenScopesArray)) {
-            throw new Error(CognitoConstants.SCOPETYPEERROR);
+            throw new ConfigurationError(CognitoConstants.SCOPETYPEERROR);
         }
-        const tokenScopes = new CognitoTokenScopes(this.tokenScopesArray);
+        this.additionalScopes = [];
+        this.scopeMismatch = ScopeMismatch || 'signIn';
+        this.events = new CognitoAuthEventEmitter<CognitoAuthEventMap>();
+        this.adaptUserhandler();
         this.redirectUriSignIn = RedirectUriSignIn;
         this.redirectUriSignOut = RedirectUriSignOut;
         this.identityProvider = IdentityProvider;
         this.responseType = implicitFlow ? CognitoConstants.TOKEN : CognitoConstants.CODE;
-        this.storage = Storage || new StorageHelper().getStorage();
+        const storage: AuthStorage = Storage || new StorageHelper().getStorage();
+        if (isAsyncStorage(storage, this.getLastUserKey())) {
+            throw new ConfigurationError(CognitoConstants.ASYNCSTORAGEERROR);
+        }
+        this.storage = storage as SyncAuthStorage;
         this.launchUri = typeof LaunchUri === 'function' ? LaunchUri : launchUri;
         this.username = this.getLastUser();
         this.userPoolId = UserPoolId;
-        this.signInUserSession = this.getCachedSession();
-        +     this.signInUserSession.setTokenScopes(tokenScopes);
+        if (Discovery === true && !UserPoolId) {
+            throw new ConfigurationError(CognitoConstants.DISCOVERYPARAMETERERROR);
+        }
+        this.restoreCachedSession();
 
         /**
          * By default, AdvancedSecurityDataCollectionFlag is set to true, if no input value is provided.
          */
         this.advancedSecurityDataCollectionFlag = Boolean(AdvancedSecurityDataCollectionFlag);
+        this.allowPlainCodeChallenge = Boolean(AllowPlainCodeChallenge);
+        this.clockSkew = typeof ClockSkew === 'number' ? ClockSkew : CognitoConstants.CLOCKSKEW;
+        this.httpClient = HttpClient || getDefaultHttpClient();
+        this.httpTimeout = HttpTimeout;
+        this.silentRenew = Boolean(SilentRenew);
+        this.silentRenewTimeout = typeof SilentRenewTimeout === 'number' ?
+            SilentRenewTimeout : CognitoConstants.SILENTRENEWTIMEOUTMILLISECONDS;
+        if (typeof Discovery === 'object') {
+            this.openIdConfiguration = Discovery;
+        } else if (typeof Discovery === 'string') {
+            this.discoveryUrl = getOpenIdConfigurationUrl(Discovery);
+        } else if (Discovery) {
+            this.discoveryUrl = getOpenIdConfigurationUrl(this.getUserPoolIssuer());
+        }
+        if (VerifyTokenSignature) {
+            if (!Jwks && !UserPoolId && !Discovery) {
+                throw new ConfigurationError(CognitoConstants.JWKSPARAMETERERROR);
+            }
+            // the JWKS url can come from the discovery document, loaded later
+            this.jwtVerifier = new CognitoJwtVerifier({
+                JwksUri: this.getJwksUri(),
+                Jwks,
+                FetchJwks: () => this.withOpenIdConfiguration(() => this.makeGETRequest(this.getJwksUri())),
+            });
+        }
+        this.refreshScheduler = new CognitoRefreshScheduler({
+            RefreshBeforeSeconds: typeof AutoRefreshSeconds === 'number' ?
+                AutoRefreshSeconds : CognitoConstants.AUTOREFRESHSECONDS,
+            GetExpiration: () => this.signInUserSession && this.signInUserSession.getAccessToken().getJwtToken() ?
+                this.signInUserSession.getAccessToken().getExpiration() : undefined,
+            Refresh: () => this.refreshSessionInBackground(),
+        });
+        if (AutoRefresh) {
+            this.startAutoRefresh();
+        }
+        if (SyncTabs) {
+            this.tabSync = new CognitoTabSync({
+                Name: `CognitoIdentityServiceProvider.${this.getClientId()}.`,
+                OnChange: () => {
+                    this.syncSession().catch(() => undefined);
+                },
+            });
+            this.tabSync.start();
+        }
+    }
+
+    /**
+     * Creates a CognitoAuth object once the cached session is loaded from its storage. This is required
+     * with an asynchronous storage, e.g. React Native AsyncStorage or IndexedDB, which is then mirrored
+     * in memory and written through; a synchronous storage is used as is.
+     * @param {object} data Creation options, as for the constructor
+     * @param {boolean} implicitFlow Optional: false to use the code grant flow
+     * @returns {Promise<CognitoAuth>} the CognitoAuth object with the cached session
+     */
+    static create(data: CognitoAuthOptions, implicitFlow: boolean = true): Promise<CognitoAuth> {
+        return new Promise<CognitoAuth>(resolve => {
+            const storage = data && data.Storage;
+            if (!storage || storage instanceof AuthStorageCache ||
+                !isAsyncStorage(storage, `CognitoIdentityServiceProvider.${data.ClientId}.LastAuthUser`)) {
+                resolve(new CognitoAuth(data, implicitFlow));
+                return;
+            }
+            const storageCache = new AuthStorageCache(storage);
+            const cognitoAuth = new CognitoAuth({ ...data, Storage: storageCache }, implicitFlow);
+            resolve(cognitoAuth.loadStorage(storageCache).then(() => {
+                cognitoAuth.username = cognitoAuth.getLastUser();
+                cognitoAuth.restoreCachedSession();
+                cognitoAuth.refreshScheduler.schedule();
+                return cognitoAuth;
+            }));
+        });
+    }
+
+    /**
+     * Load the entries of the app client from an asynchronous storage, listing its keys when possible,
+     * or else following the users index. The entries already in memory are loaded again, to drop
+     * those removed from the storage.
+     * @param {AuthStorageCache} storageCache the memory mirror of the storage
+     * @returns {Promise<void>} resolved once the entries are loaded
+     */
+    private loadStorage(storageCache: AuthStorageCache): Promise<void> {
+        const keyPrefix = `CognitoIdentityServiceProvider.${this.getClientId()}.`;
+        const storage = storageCache.storage;
+        const loadKeys = (keys: string[]) => storageCache.load(keys.concat(storageCache.getKeys())
+            .filter((key, index, all) => key.indexOf(keyPrefix) === 0 && all.indexOf(key) === index));
+        return Promise.resolve(typeof storage.getAllKeys === 'function' ? storage.getAllKeys() : null).then(keys => {
+            if (keys) {
+                return loadKeys(keys);
+            }
+            return storageCache.load([this.getLastUserKey(), this.getUsersKey(),
+                this.getStateKey(), this.getNonceKey(), this.getCodeVerifierKey(),
+                this.getCallbackStateKey(), this.getReturnPathKey(), this.getAdditionalScopesKey()]).then(() => {
+                const users = this.getCachedUsers().concat(this.getLastUser() || []);
+                return loadKeys([].concat(...users.map(user =>
+                    ['idToken', 'accessToken', 'refreshToken', 'tokenScopesString'].map(item => `${keyPrefix}${user}.${item}`))));
+            });
+        });
+    }
+
+    /**
+     * Reload the session after another tab changed the storage, emitting signedIn, tokenRefreshed
+     * or signedOut when it changed.
+     * @returns {Promise<void>} resolved once the session is reloaded
+     */
+    private syncSession(): Promise<void> {
+        const load = this.storage instanceof AuthStorageCache ? this.loadStorage(this.storage) : Promise.resolve();
+        return load.then(() => {
+            const username = this.getLastUser();
+            // getCachedSession() defaults to the current user
+            const session = username ? this.getCachedSession(username) : new CognitoAuthSession();
+            const accessToken = session.getAccessToken().getJwtToken();
+            const previousAccessToken = this.signInUserSession ?
+                this.signInUserSession.getAccessToken().getJwtToken() : undefined;
+            if (username === this.username && accessToken === previousAccessToken) {
+                return;
+            }
+            const sameUser = username === this.username;
+            this.username = username;
+            this.signInUserSession = session;
+            this.userInfo = null;
+            this.refreshScheduler.schedule();
+            if (!accessToken) {
+                this.events.emit('signedOut');
+            } else if (sameUser && previousAccessToken) {
+                this.events.emit('tokenRefreshed', session);
+            } else {
+                this.events.emit('signedIn', session);
+            }
+        });
+    }
+
+    /**
+     * Notify the other tabs that the storage changed, once written.
+     * @returns {void}
+     */
+    private notifyTabs() {
+        if (this.tabSync) {
+            const flush = this.storage instanceof AuthStorageCache ? this.storage.flush() : Promise.resolve();
+            flush.then(() => this.tabSync.notify(), () => undefined);
+        }
+    }
+
+    /**
+     * Stop synchronizing the session with the other tabs.
+     * @returns {void}
+     */
+    stopSyncTabs() {
+        if (this.tabSync) {
+            this.tabSync.stop();
+        }
     }
 
     protected getUserhandler() {
         return this.userhandler;
     }
 
-    protected getRedirectUriSignIn() {
+    /**
+     * @returns {string} the sign-in redirect uri
+     */
+    getRedirectUriSignIn(): string {
         return this.redirectUriSignIn;
     }
 
@@ -178,6 +525,92 @@ export default class CognitoAuth {
         return this.appWebDomain;
     }
 
+    /**
+     * @returns {string} the issuer of the user pool tokens, undefined without UserPoolId
+     */
+    getUserPoolIssuer(): string {
+        if (!this.userPoolId) {
+            return undefined;
+        }
+        const region = this.userPoolId.split(CognitoConstants.UNDERSCORE)[0];
+        return CognitoConstants.DOMAIN_SCHEME.concat(
+            CognitoConstants.COLONDOUBLESLASH, CognitoConstants.USERPOOL_DOMAIN_PREFIX, region,
+            CognitoConstants.USERPOOL_DOMAIN_SUFFIX, CognitoConstants.SLASH, this.userPoolId);
+    }
+
+    /**
+     * @returns {object} the options used to validate the claims of the session tokens
+     */
+    getSessionValidationOptions(): CognitoSessionValidationOptions {
+        return {
+            ClientId: this.getClientId(),
+            Issuer: this.openIdConfiguration ? this.openIdConfiguration.issuer : this.getUserPoolIssuer(),
+            ClockSkew: this.clockSkew,
+        };
+    }
+
+    /**
+     * @returns {string} the JWKS url of the discovery document if loaded, otherwise of the user pool,
+     * undefined without UserPoolId
+     */
+    getJwksUri(): string {
+        if (this.openIdConfiguration && this.openIdConfiguration.jwks_uri) {
+            return this.openIdConfiguration.jwks_uri;
+        }
+        const issuer = this.getUserPoolIssuer();
+        return issuer ? issuer.concat(CognitoConstants.SLASH, CognitoConstants.DOMAIN_PATH_JWKS) : undefined;
+    }
+
+    /**
+     * Load the OpenID Connect discovery document when the Discovery option is an url or true,
+     * concurrent calls share the same request.
+     * @returns {Promise<CognitoOpenIdConfiguration>} the discovery document, undefined without Discovery
+     */
+    loadOpenIdConfiguration(): Promise<CognitoOpenIdConfiguration> {
+        if (this.openIdConfiguration || !this.discoveryUrl) {
+            return Promise.resolve(this.openIdConfiguration);
+        }
+        if (!this.pendingOpenIdConfiguration) {
+            this.pendingOpenIdConfiguration = this.makeGETRequest(this.discoveryUrl).then(data => {
+                this.pendingOpenIdConfiguration = null;
+                this.openIdConfiguration = parseOpenIdConfiguration(data);
+                if (this.jwtVerifier && this.openIdConfiguration.jwks_uri) {
+                    this.jwtVerifier.jwksUri = this.openIdConfiguration.jwks_uri;
+                }
+                return this.openIdConfiguration;
+            }, e => {
+                this.pendingOpenIdConfiguration = null;
+                throw e;
+            });
+        }
+        return this.pendingOpenIdConfiguration;
+    }
+
+    /**
+     * Call a function using the endpoints, once the discovery document is loaded;
+     * synchronously when it is not needed or already loaded.
+     * @param {function} callback the function
+     * @returns {Promise} the result of the function
+     */
+    private withOpenIdConfiguration<T>(callback: () => Promise<T>): Promise<T> {
+        if (this.openIdConfiguration || !this.discoveryUrl) {
+            return callback();
+        }
+        return this.loadOpenIdConfiguration().then(callback);
+    }
+
+    /**
+     * @param {string} member the endpoint member of the discovery document
+     * @param {string} path the endpoint path on the AppWebDomain
+     * @returns {string} the endpoint url, from the discovery document if loaded
+     */
+    private getEndpoint(member: string, path: string): string {
+        if (this.openIdConfiguration && this.openIdConfiguration[member]) {
+            return this.openIdConfiguration[member];
+        }
+        return getDomainUrl(this.getAppWebDomain(), path);
+    }
+
     /**
      * method for getting the current user of the application from the local storage
      *
@@ -256,6 +689,21 @@ export default class CognitoAuth {
         this.state = state;
     }
 
+    /**
+     * @returns {string} the nonce sent to the authorization endpoint
+     */
+    getNonce(): string {
+        return this.nonce;
+    }
+
+    /**
+     * @param {string} nonce the nonce sent to the authorization endpoint
+     * @returns {void}
+     */
+    setNonce(nonce: string) {
+        this.nonce = nonce;
+    }
+
     /**
      * This is used to get a session, either from the session object
      * or from the local storage, or by using a refresh token
@@ -263,51 +711,174 @@ export default class CognitoAuth {
      * which will be launched after authentication.
      * @param {array} TokenScopesArray Required: The token scopes, it is an
      * array of strings specifying all scopes for the tokens.
+     * @param {string} username Optional: a user with a cached session, switched to before getting the session
      * @returns {void}
      */
-    public getSession(): Promise<CognitoAuthSession> {
-        const tokenScopesInputSet = new Set(this.tokenScopesArray);
-        const cachedScopesSet = new Set(this.signInUserSession.tokenScopes.getScopes()); //TODO why here?
-        const URL = this.getFQDNSignIn();
-        if (this.signInUserSession != null && this.signInUserSession.isValid()) {
-            if (this.userhandler) {
-                this.userhandler.onSuccess(this.signInUserSession);
-            }
-            return Promise.resolve(this.signInUserSession);
+    public getSession(username?: string): Promise<CognitoAuthSession> {
+        if (username && username !== this.username) {
+            this.switchUser(username);
+        }
+        // the session is null after signOut
+        const currentSession = this.signInUserSession || this.getCachedSession();
+        const grantedScopes = currentSession.tokenScopes.getScopes();
+        const missingScopes = this.tokenScopesArray.filter(scope => grantedScopes.indexOf(scope) < 0);
+        if (this.signInUserSession != null && this.signInUserSession.isValid(this.getSessionValidationOptions())) {
+            return this.resolveCachedSession();
+        }
+        this.signInUserSession = this.getCachedSession();
+        if (missingScopes.length > 0 && this.scopeMismatch === 'warn') {
+            this.events.emit('scopeMismatch', {
+                requested: this.tokenScopesArray.slice(),
+                granted: grantedScopes.slice(),
+                missing: missingScopes,
+            });
         }
-        this.signInUserSession = this.getCachedSession(); //TODO? const cachedScopesSet = new Set(this.signInUserSession.tokenScopes.getScopes());
         // compare scopes
-        if (!this.compareSets(tokenScopesInputSet, cachedScopesSet)) {
+        if (missingScopes.length > 0 && this.scopeMismatch === 'signIn') {
             const tokenScopes = new CognitoTokenScopes(this.tokenScopesArray);
-            const idToken = new CognitoToken();
-            const accessToken = new CognitoToken();
+            const idToken = new CognitoIdToken();
+            const accessToken = new CognitoAccessToken();
             const refreshToken = new CognitoRefreshToken();
             this.signInUserSession.setTokenScopes(tokenScopes);
             this.signInUserSession.setIdToken(idToken);
             this.signInUserSession.setAccessToken(accessToken);
             this.signInUserSession.setRefreshToken(refreshToken);
-            this.launchUri(URL);
-        } else if (this.signInUserSession.isValid()) {
-            if (this.userhandler) {
-                this.userhandler.onSuccess(this.signInUserSession);
-            }
-            return Promise.resolve(this.signInUserSession);
-        } else if (!this.signInUserSession.getRefreshToken()
-            || !this.signInUserSession.getRefreshToken().getToken()) {
-            this.launchUri(URL);
         } else {
-            return this.refreshSession(this.signInUserSession.getRefreshToken().getToken()).then(data => {
-                if (this.userhandler) {
-                    this.userhandler.onSuccess(this.signInUserSession);
-                }
-                return this.signInUserSession
+            const validation = this.signInUserSession.validate(this.getSessionValidationOptions());
+            if (validation.valid) {
+                return this.resolveCachedSession();
             }
-            );
+            if (validation.reason !== 'missingToken') {
+                this.events.emit('sessionExpired', validation);
+            }
+            if (this.signInUserSession.getRefreshToken() && this.signInUserSession.getRefreshToken().getToken()) {
+                return this.refreshSession(this.signInUserSession.getRefreshToken().getToken());
+            }
+            if (this.silentRenew && validation.reason !== 'missingToken') {
+                return this.renewSessionSilently().catch(() => this.launchSignIn().then(() => undefined));
+            }
+            // no refresh token, the user has to sign in again
         }
+        return this.launchSignIn().then(() => undefined);
+    }
+
+    /**
+     * Resolve the valid cached session: no tokens were obtained, so signedIn is not emitted,
+     * but the userhandler is still called as before the events.
+     * @returns {Promise<CognitoAuthSession>} the cached session
+     */
+    private resolveCachedSession(): Promise<CognitoAuthSession> {
         if (this.userhandler) {
-            this.userhandler.onSuccess(undefined);
+            this.userhandler.onSuccess(this.signInUserSession);
+        }
+        return Promise.resolve(this.signInUserSession);
+    }
+
+    /**
+     * Sign in with the hosted UI opened in a popup, keeping the state of the current page. The redirect
+     * page has to call handlePopupCallback() to post the callback url back to this page. Call it from
+     * a user gesture, e.g. a click handler, or the popup is blocked.
+     * @param {object} options Optional: the Timeout (in milliseconds) and the PopupFeatures
+     * @returns {Promise<CognitoAuthSession>} the session, rejected with a PopupError when the popup
+     *          is blocked, closed by the user or times out
+     */
+    signInWithPopup({ Timeout, PopupFeatures }: CognitoPopupOptions = {}): Promise<CognitoAuthSession> {
+        const popup = openPopup(PopupFeatures || CognitoConstants.POPUPFEATURES);
+        if (!popup) {
+            return Promise.reject(new PopupError(CognitoConstants.POPUPBLOCKEDERROR, CognitoConstants.POPUPBLOCKED));
         }
-        return Promise.resolve(undefined);
+        return this.prepareFQDNSignIn().then(URL => {
+            this.events.emit('redirecting', URL);
+            popup.location.href = URL;
+            return waitForPopupCallback(popup, getOrigin(this.redirectUriSignIn),
+                typeof Timeout === 'number' ? Timeout : CognitoConstants.POPUPTIMEOUTMILLISECONDS);
+        }, e => {
+            popup.close();
+            throw e;
+        }).then(URL => this.parseCognitoWebResponse(URL));
+    }
+
+    /**
+     * Request the consent to additional scopes, merged with the TokenScopesArray scopes. The current
+     * session remains usable until the new authorization completes, then it holds the granted scopes.
+     * Call it from a user gesture with popup options, or the hosted UI replaces the current page.
+     * @param {array} scopes the additional scopes
+     * @param {object} popupOptions Optional: sign in with a popup, with the Timeout and the PopupFeatures
+     * @returns {Promise<CognitoAuthSession>} the session, at once when the scopes are already granted;
+     *          resolved with undefined when the hosted UI is launched in the current page
+     */
+    requestAdditionalScopes(scopes: ReadonlyArray<string>,
+        popupOptions?: CognitoPopupOptions): Promise<CognitoAuthSession> {
+        const grantedScopes = this.signInUserSession ? this.signInUserSession.getTokenScopes().getScopes() : [];
+        this.additionalScopes = this.additionalScopes.concat(
+            scopes.filter((scope, index) => this.additionalScopes.indexOf(scope) < 0 && scopes.indexOf(scope) === index));
+        const requestedScopes = this.getRequestedScopes();
+        if (requestedScopes.every(scope => grantedScopes.indexOf(scope) >= 0) && this.signInUserSession != null &&
+            this.signInUserSession.isValid(this.getSessionValidationOptions())) {
+            this.tokenScopesArray = requestedScopes;
+            this.additionalScopes = [];
+            return Promise.resolve(this.signInUserSession);
+        }
+        if (popupOptions) {
+            return this.signInWithPopup(popupOptions).catch(e => {
+                this.clearAdditionalScopes();
+                throw e;
+            });
+        }
+        return this.launchSignIn().then(() => undefined);
+    }
+
+    /**
+     * Subscribe to an auth state event: signedIn, signedOut, tokenRefreshed, refreshFailed,
+     * sessionExpired, scopeMismatch, redirecting or callbackError.
+     * @param {string} event the event name
+     * @param {function} listener called with the event data
+     * @returns {function} unsubscribes the listener
+     */
+    on<K extends keyof CognitoAuthEventMap>(event: K, listener: CognitoAuthEventListener<CognitoAuthEventMap[K]>) {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * Subscribe to the next occurrence of an auth state event.
+     * @param {string} event the event name
+     * @param {function} listener called with the event data
+     * @returns {function} unsubscribes the listener
+     */
+    once<K extends keyof CognitoAuthEventMap>(event: K, listener: CognitoAuthEventListener<CognitoAuthEventMap[K]>) {
+        return this.events.once(event, listener);
+    }
+
+    /**
+     * Unsubscribe from an auth state event.
+     * @param {string} event the event name
+     * @param {function} listener the subscribed listener
+     * @returns {void}
+     */
+    off<K extends keyof CognitoAuthEventMap>(event: K, listener: CognitoAuthEventListener<CognitoAuthEventMap[K]>) {
+        this.events.off(event, listener);
+    }
+
+    /**
+     * Forward the auth state events to the userhandler, if set:
+     * onSuccess for signedIn and tokenRefreshed, onFailure for callbackError and refreshFailed.
+     * @returns {void}
+     */
+    private adaptUserhandler() {
+        const onSuccess = (authSession: CognitoAuthSession) => {
+            if (this.userhandler) {
+                this.userhandler.onSuccess(authSession);
+            }
+        };
+        const onFailure = (err: any) => {
+            if (this.userhandler) {
+                this.userhandler.onFailure(err);
+            }
+        };
+        this.events.on('signedIn', onSuccess);
+        this.events.on('tokenRefreshed', onSuccess);
+        this.events.on('callbackError', onFailure);
+        this.events.on('refreshFailed', onFailure);
     }
 
     /**
@@ -316,15 +887,12 @@ export default class CognitoAuth {
      * Parse the http request response and proceed according to different response types.
      */
     parseCognitoWebResponse(httpRequestResponse: string): Promise<CognitoAuthSession> {
-        const parsePromise = this.responseType === CognitoConstants.TOKEN ?
-            this.parseCognitoToken(httpRequestResponse) : this.parseCognitoCode(httpRequestResponse);
-        return parsePromise.then(data => {
-            const result = this.resolveCognitoAuthSession(data);
-            if (this.userhandler) this.userhandler.onSuccess(result);
+        return this.parseCallback(httpRequestResponse).then(result => {
+            this.events.emit('signedIn', result);
             return result;
         }).catch(e => {
+            this.events.emit('callbackError', e);
             if (this.userhandler) {
-                this.userhandler.onFailure(e)
                 return undefined;
             } else {
                 throw e;
@@ -332,27 +900,299 @@ export default class CognitoAuth {
         });
     }
 
-    private parseCognitoToken(httpRequestResponse: string): Promise<Map<string, string>> {
-        const map = this.getQueryParameters(
-            httpRequestResponse,
-            CognitoConstants.QUERYPARAMETERREGEX1
-        );
-        return Promise.resolve(map);
+    /**
+     * @param {string} url Optional: the url, by default the current location
+     * @returns {boolean} whether the url is an authorization response for the sign-in redirect uri:
+     *          a code, tokens or an error
+     */
+    isCallbackUrl(url: string = getCurrentUrl()): boolean {
+        return matchesRedirectUri(url, this.redirectUriSignIn) && hasCallbackParameters(url);
+    }
+
+    /**
+     * Process the authorization response of the current page once, then remove it from the address bar
+     * and the history, replacing the url by the return path if set. A callback processed before,
+     * e.g. when the page is reloaded, resolves the cached session without being parsed again.
+     * @param {string} url Optional: the callback url, by default the current location
+     * @returns {Promise<CognitoAuthSession>} the session, null when the url is not a callback
+     */
+    handleRedirectCallback(url: string = getCurrentUrl()): Promise<CognitoAuthSession> {
+        if (!this.isCallbackUrl(url)) {
+            return Promise.resolve(null);
+        }
+        // e.g. called twice by a component mounted twice
+        if (this.handledCallback && this.handledCallback.url === url) {
+            return this.handledCallback.promise;
+        }
+        const callbackState = this.getCallbackState(url);
+        let callback: Promise<CognitoAuthSession>;
+        if (callbackState && this.storage.getItem(this.getCallbackStateKey()) === callbackState) {
+            callback = Promise.resolve(this.signInUserSession != null &&
+                this.signInUserSession.isValid(this.getSessionValidationOptions()) ? this.signInUserSession : null);
+        } else {
+            if (callbackState) {
+                this.storage.setItem(this.getCallbackStateKey(), callbackState);
+            }
+            callback = this.parseCognitoWebResponse(url);
+        }
+        const promise = callback.then(result => {
+            this.cleanUpCallbackUrl(url);
+            return result;
+        }, e => {
+            this.cleanUpCallbackUrl(url);
+            throw e;
+        });
+        this.handledCallback = { url, promise };
+        return promise;
+    }
+
+    /**
+     * Set the path of the app where handleRedirectCallback() returns after the sign-in,
+     * e.g. the path of the page launching the hosted UI. It is kept in the storage.
+     * @param {string} returnPath the path, relative to the origin of the app
+     * @returns {void}
+     */
+    setReturnPath(returnPath: string) {
+        if (!isReturnPath(returnPath)) {
+            throw new ConfigurationError(CognitoConstants.RETURNPATHERROR);
+        }
+        this.storage.setItem(this.getReturnPathKey(), returnPath);
+    }
+
+    /**
+     * @param {string} url the callback url
+     * @returns {string} the state of the authorization response, or its code without state
+     */
+    private getCallbackState(url: string): string {
+        const map = this.getResponseParameters(url);
+        return map.get(CognitoConstants.STATE) || map.get(CognitoConstants.CODE);
+    }
+
+    /**
+     * Replace the callback url of the current page by the return path, or by the url without the
+     * authorization response.
+     * @param {string} url the callback url
+     * @returns {void}
+     */
+    private cleanUpCallbackUrl(url: string) {
+        const returnPath = this.storage.getItem(this.getReturnPathKey());
+        this.storage.removeItem(this.getReturnPathKey());
+        if (url === getCurrentUrl()) {
+            replaceCurrentUrl(isReturnPath(returnPath) ? returnPath : removeCallbackParameters(url));
+        }
+    }
+
+    /**
+     * @returns {string} the storage key of the state of the last processed callback
+     */
+    private getCallbackStateKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.callbackState`;
+    }
+
+    /**
+     * @returns {string} the storage key of the additional scopes being requested
+     */
+    private getAdditionalScopesKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.additionalScopes`;
+    }
+
+    /**
+     * Forget the additional scopes being requested, when their authorization fails.
+     * @returns {void}
+     */
+    private clearAdditionalScopes() {
+        this.additionalScopes = [];
+        this.storage.removeItem(this.getAdditionalScopesKey());
     }
 
-    private parseCognitoCode(httpRequestResponse: string): Promise<Map<string, string>> {
+    /**
+     * @returns {string} the storage key of the return path
+     */
+    private getReturnPathKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.returnPath`;
+    }
+
+    /**
+     * Parse the callback of the authorization endpoint and cache the session.
+     * @param {string} httpRequestResponse the http request response
+     * @returns {Promise<CognitoAuthSession>} the session
+     */
+    private parseCallback(httpRequestResponse: string): Promise<CognitoAuthSession> {
+        let parsePromise: Promise<Map<string, string>>;
+        // the additional scopes persisted before the redirect
+        const additionalScopes = this.storage.getItem(this.getAdditionalScopesKey());
+        if (additionalScopes) {
+            this.additionalScopes = this.additionalScopes.concat(additionalScopes.split(CognitoConstants.SPACE)
+                .filter(scope => this.additionalScopes.indexOf(scope) < 0));
+        }
+        try {
+            const map = this.getResponseParameters(httpRequestResponse);
+            this.verifyState(map);
+            // the session is null after signOut
+            if (this.signInUserSession == null) {
+                this.signInUserSession = new CognitoAuthSession();
+            }
+            parsePromise = this.responseType === CognitoConstants.TOKEN ?
+                this.parseCognitoToken(map) : this.parseCognitoCode(map);
+        } catch (e) {
+            parsePromise = Promise.reject(e);
+        }
+        return parsePromise.then(data => this.verifyTokens(data)).then(data => {
+            const result = this.resolveCognitoAuthSession(data);
+            // the granted additional scopes are requested by the next sign-ins too, the others are dropped
+            // so that the ScopeMismatch check does not discard the session
+            const grantedScopes = result.getTokenScopes().getScopes();
+            this.tokenScopesArray = this.tokenScopesArray.concat(this.additionalScopes.filter(scope =>
+                this.tokenScopesArray.indexOf(scope) < 0 && grantedScopes.indexOf(scope) >= 0));
+            this.clearAdditionalScopes();
+            this.refreshScheduler.schedule();
+            return result;
+        }).catch(e => {
+            this.clearAdditionalScopes();
+            throw e;
+        });
+    }
+
+    /**
+     * Renew the session without user interaction, loading the hosted UI in a hidden iframe: while its
+     * session cookie is valid, it redirects at once to the redirect page, which has to call
+     * handlePopupCallback(). Works with the implicit and the code grant flows; concurrent calls share
+     * the same renewal.
+     * @returns {Promise<CognitoAuthSession>} the renewed session, rejected with an InteractionRequiredError
+     *          when the hosted UI session is gone
+     */
+    renewSessionSilently(): Promise<CognitoAuthSession> {
+        if (!this.pendingSilentRenew) {
+            const clear = () => {
+                this.pendingSilentRenew = null;
+            };
+            this.pendingSilentRenew = this.prepareFQDNSignIn().then(URL => {
+                const { frame, remove } = openHiddenIframe(URL.concat(CognitoConstants.AMPERSAND,
+                    CognitoConstants.PROMPT, CognitoConstants.EQUALSIGN, CognitoConstants.PROMPTNONE));
+                // without a hosted UI session, the sign-in page is displayed in the iframe until the timeout
+                const callback = waitForPopupCallback(frame, getOrigin(this.redirectUriSignIn),
+                    this.silentRenewTimeout, () => new InteractionRequiredError());
+                callback.then(remove, remove);
+                return callback;
+            }).then(URL => this.parseCallback(URL)).then(result => {
+                this.events.emit('tokenRefreshed', result);
+                return result;
+            }, e => {
+                const error = e instanceof OAuthError && CognitoConstants.INTERACTIONREQUIREDCODES.indexOf(e.code) >= 0 ?
+                    new InteractionRequiredError({ code: e.code, description: e.description, response: e.response }) : e;
+                this.events.emit('refreshFailed', error);
+                throw error;
+            });
+            this.pendingSilentRenew.then(clear, clear);
+        }
+        return this.pendingSilentRenew;
+    }
+
+    /**
+     * Get the parameters of the http request response, from the fragment for the implicit flow
+     * or from the query string for the code grant flow.
+     * @param {string} httpRequestResponse the http request response
+     * @returns {map} map
+     */
+    private getResponseParameters(httpRequestResponse: string): Map<string, string> {
+        if (this.responseType === CognitoConstants.TOKEN) {
+            return this.getQueryParameters(
+                httpRequestResponse,
+                CognitoConstants.QUERYPARAMETERREGEX1
+            );
+        }
         // this is to avoid a bug exists when sign in with Google or facebook
         // Sometimes the code will contain a poundsign in the end which breaks the parsing
         const response = (httpRequestResponse.split(CognitoConstants.POUNDSIGN))[0];
-        const map = this.getQueryParameters(
+        return this.getQueryParameters(
             response,
             CognitoConstants.QUESTIONMARK
         );
+    }
+
+    /**
+     * Verify the state of the http request response against the state persisted before
+     * launching the authorization endpoint. The persisted state is removed, so that the
+     * same response cannot be processed twice.
+     * @param {map} map the response parameters
+     * @returns {void}
+     */
+    private verifyState(map: Map<string, string>) {
+        const stateKey = this.getStateKey();
+        const expectedState = this.storage.getItem(stateKey);
+        const state = map.has(CognitoConstants.STATE) ?
+            decodeURIComponent(map.get(CognitoConstants.STATE)) : undefined;
+        this.storage.removeItem(stateKey);
+        // a new state is generated for the next sign-in, whether the response matches or not
+        this.state = null;
+        if (!expectedState || state !== expectedState) {
+            throw new StateMismatchError();
+        }
+    }
+
+    /**
+     * @returns {string} the storage key of the state sent to the authorization endpoint
+     */
+    private getStateKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.oauthState`;
+    }
+
+    /**
+     * Verify the nonce claim of the Id token against the nonce persisted before launching
+     * the authorization endpoint. The persisted nonce is removed, so that the same Id token
+     * cannot be accepted twice.
+     * @param {string} jwtToken the Id token
+     * @returns {void}
+     */
+    private verifyNonce(jwtToken: string) {
+        const nonceKey = this.getNonceKey();
+        const expectedNonce = this.storage.getItem(nonceKey);
+        const nonce = new CognitoIdToken(jwtToken).getClaim('nonce');
+        this.storage.removeItem(nonceKey);
+        if (!nonce) {
+            throw new TokenValidationError(CognitoConstants.NONCEMISSINGERROR);
+        }
+        if (nonce !== expectedNonce) {
+            throw new TokenValidationError(CognitoConstants.NONCEMISMATCHERROR);
+        }
+        this.nonce = null;
+    }
+
+    /**
+     * @returns {string} the storage key of the nonce sent to the authorization endpoint
+     */
+    private getNonceKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.oauthNonce`;
+    }
+
+    private parseCognitoToken(map: Map<string, string>): Promise<Map<string, string>> {
+        return Promise.resolve(map);
+    }
+
+    /**
+     * Create the error of an OAuth error response of the callback url.
+     * @param {map} map the url encoded response parameters, with error and error_description
+     * @returns {OAuthError} the error
+     */
+    private createOAuthError(map: Map<string, string>): OAuthError {
+        const decode = (value: string) => value ? decodeURIComponent(value.replace(/\+/g, ' ')) : value;
+        const response = {};
+        map.forEach((value, key) => {
+            response[key] = decode(value);
+        });
+        return new OAuthError({
+            code: decode(map.get(CognitoConstants.ERROR)),
+            description: decode(map.get(CognitoConstants.ERROR_DESCRIPTION)),
+            response,
+        });
+    }
+
+    private parseCognitoCode(map: Map<string, string>): Promise<Map<string, string>> {
         if (map.has(CognitoConstants.ERROR)) {
-            throw new Error(CognitoConstants.PARSETYPEERROR);
+            throw this.createOAuthError(map);
         }
         if (map.has(CognitoConstants.STATE)) {
-            this.signInUserSession.setState(map.get(CognitoConstants.STATE));
+            this.signInUserSession.setState(decodeURIComponent(map.get(CognitoConstants.STATE)));
         } else {
             this.signInUserSession.setState(null);
         }
@@ -361,53 +1201,115 @@ export default class CognitoAuth {
             // if the response contains code
             // To parse the response and get the code value.
             const codeParameter = map.get(CognitoConstants.CODE);
-            const body = {
+            const body: any = {
                 grant_type: CognitoConstants.AUTHORIZATIONCODE,
                 code: codeParameter
             };
-            return this.makePostCode(body);
+            const codeVerifierKey = this.getCodeVerifierKey();
+            const codeVerifier = this.storage.getItem(codeVerifierKey);
+            if (codeVerifier) {
+                body[CognitoConstants.CODEVERIFIER] = codeVerifier;
+            }
+            // the code verifier can be used only once, whatever the outcome of the exchange
+            return this.makePostCode(body).then(data => {
+                this.storage.removeItem(codeVerifierKey);
+                return data;
+            }, e => {
+                this.storage.removeItem(codeVerifierKey);
+                throw e;
+            });
         }
+        return Promise.reject(new CognitoAuthError(CognitoConstants.PARSETYPEERROR));
     }
 
     private makePostCode(bodyOption: any): Promise<Map<string, string>> {
-
-        const url = this.getUrlToken();
-        const header = CognitoConstants.HEADER;
-        const body = {
+        const { headers, body } = this.authenticateClient({
             ...bodyOption,
             client_id: this.getClientId(),
             redirect_uri: this.getRedirectUriSignIn(),
-        };
-        return this.makePOSTRequest(header, body, url).then(data => {
+        });
+        return this.withOpenIdConfiguration(() => this.makePOSTRequest(headers, body, this.getUrlToken())).then(data => {
             return new Map(Object.entries(JSON.parse(data)));
         });
     }
 
+    /**
+     * Add the client secret, if any, to a request to the token or revocation endpoint.
+     * @param {JSON} body the request body
+     * @returns {object} the request headers and body
+     */
+    private authenticateClient(body: { [key: string]: any }) {
+        return authenticateClient({
+            clientId: this.getClientId(),
+            clientSecret: this.clientSecret,
+            clientAuthMethod: this.clientAuthMethod,
+        }, CognitoConstants.HEADER, body);
+    }
+
     private getUrlToken() {
-        return CognitoConstants.DOMAIN_SCHEME.concat(
-            CognitoConstants.COLONDOUBLESLASH, this.getAppWebDomain(),
-            CognitoConstants.SLASH, CognitoConstants.DOMAIN_PATH_TOKEN);
+        return this.getEndpoint('token_endpoint', CognitoConstants.DOMAIN_PATH_TOKEN);
+    }
+
+    private getUrlUserInfo() {
+        return this.getEndpoint('userinfo_endpoint', CognitoConstants.DOMAIN_PATH_USERINFO);
+    }
+
+    private getUrlRevoke() {
+        return this.getEndpoint('revocation_endpoint', CognitoConstants.DOMAIN_PATH_REVOKE);
+    }
+
+    private getUrlAuthorize() {
+        return this.getEndpoint('authorization_endpoint', CognitoConstants.DOMAIN_PATH_SIGNIN);
+    }
+
+    /**
+     * @returns {string} the end_session_endpoint of the discovery document if loaded, otherwise the logout
+     * endpoint on the domain of the authorization endpoint
+     */
+    private getUrlSignOut() {
+        if (this.openIdConfiguration && !this.openIdConfiguration.end_session_endpoint) {
+            return getOrigin(this.openIdConfiguration.authorization_endpoint).concat(
+                CognitoConstants.SLASH, CognitoConstants.DOMAIN_PATH_SIGNOUT);
+        }
+        return this.getEndpoint('end_session_endpoint', CognitoConstants.DOMAIN_PATH_SIGNOUT);
+    }
+
+    /**
+     * Verify the signature of the tokens of a response when the token signature verification is enabled.
+     * @param {map} map the response parameters
+     * @returns {Promise<map>} the same map, rejected if a token signature is not valid
+     */
+    private verifyTokens(map: Map<string, string>): Promise<Map<string, string>> {
+        if (!this.jwtVerifier) {
+            return Promise.resolve(map);
+        }
+        const tokens = [CognitoConstants.IDTOKEN, CognitoConstants.ACCESSTOKEN]
+            .filter(key => map.has(key))
+            .map(key => this.jwtVerifier.verify(map.get(key)));
+        return Promise.all(tokens).then(() => map);
     }
 
     resolveCognitoAuthSession(map: Map<string, string>): CognitoAuthSession {
-        const idToken = new CognitoToken();
-        const accessToken = new CognitoToken();
+        const idToken = new CognitoIdToken();
+        const accessToken = new CognitoAccessToken();
         const refreshToken = new CognitoRefreshToken();
         if (map.has(CognitoConstants.ERROR)) {
-            throw new Error(CognitoConstants.PARSETYPEERROR);
+            throw this.createOAuthError(map);
         }
         if (map.has(CognitoConstants.IDTOKEN)) {
-            this.signInUserSession.setIdToken(new CognitoToken(map.get(CognitoConstants.IDTOKEN)));
+            // verified before updating the session
+            this.verifyNonce(map.get(CognitoConstants.IDTOKEN));
+            this.signInUserSession.setIdToken(new CognitoIdToken(map.get(CognitoConstants.IDTOKEN)));
         } else {
             this.signInUserSession.setIdToken(idToken);
         }
         if (map.has(CognitoConstants.ACCESSTOKEN)) {
-            this.signInUserSession.setAccessToken(new CognitoToken(map.get(CognitoConstants.ACCESSTOKEN)));
+            this.signInUserSession.setAccessToken(new CognitoAccessToken(map.get(CognitoConstants.ACCESSTOKEN)));
         } else {
             this.signInUserSession.setAccessToken(accessToken);
         }
         if (map.has(CognitoConstants.STATE)) {
-            this.signInUserSession.setState(map.get(CognitoConstants.STATE));
+            this.signInUserSession.setState(decodeURIComponent(map.get(CognitoConstants.STATE)));
         } else {
             this.signInUserSession.setState(null);
         }
@@ -424,26 +1326,27 @@ export default class CognitoAuth {
 
     /**
      * Get cached tokens and scopes and return a new session using all the cached data.
+     * @param {string} username Optional: the user, by default the current one
      * @returns {CognitoAuthSession} the auth session
      */
-    getCachedSession(): CognitoAuthSession {
-        if (!this.username) {
+    getCachedSession(username: string = this.username): CognitoAuthSession {
+        if (!username) {
             return new CognitoAuthSession();
         }
-        const keyPrefix = `CognitoIdentityServiceProvider.${this.getClientId()}.${this.username}`;
+        const keyPrefix = `CognitoIdentityServiceProvider.${this.getClientId()}.${username}`;
         const idTokenKey = `${keyPrefix}.idToken`;
         const accessTokenKey = `${keyPrefix}.accessToken`;
         const refreshTokenKey = `${keyPrefix}.refreshToken`;
         const scopeKey = `${keyPrefix}.tokenScopesString`;
 
         const scopesString = this.storage.getItem(scopeKey);
-        let scopesArray: [] = [];
+        let scopesArray: string[] = [];
         if (scopesString) {
             scopesArray = scopesString.split(' ');
         }
         const tokenScopes = new CognitoTokenScopes(scopesArray);
-        const idToken: CognitoToken = new CognitoToken(this.storage.getItem(idTokenKey));
-        const accessToken = new CognitoToken(this.storage.getItem(accessTokenKey));
+        const idToken = new CognitoIdToken(this.storage.getItem(idTokenKey));
+        const accessToken = new CognitoAccessToken(this.storage.getItem(accessTokenKey));
         const refreshToken = new CognitoRefreshToken(this.storage.getItem(refreshTokenKey));
 
         const sessionData: CognitoSessionData = {
@@ -461,15 +1364,26 @@ export default class CognitoAuth {
      * @returns {string} the last user name
      */
     getLastUser(): string {
-        const keyPrefix = `CognitoIdentityServiceProvider.${this.getClientId()}`;
-        const lastUserKey = `${keyPrefix}.LastAuthUser`;
-        const lastUserName = this.storage.getItem(lastUserKey);
+        const lastUserName = this.storage.getItem(this.getLastUserKey());
         if (lastUserName) {
             return lastUserName;
         }
         return undefined;
     }
 
+    /**
+     * @returns {string} the username claim of the access token for a Cognito user pool issuer,
+     * otherwise the sub claim of the Id token, else of the access token
+     */
+    getTokenUsername(): string {
+        const accessToken = this.signInUserSession.getAccessToken();
+        if (isUserPoolIssuer(this.getSessionValidationOptions().Issuer)) {
+            return accessToken.getUsername();
+        }
+        const idToken = this.signInUserSession.getIdToken();
+        return (idToken && idToken.getJwtToken() && idToken.getSub()) || accessToken.getSub();
+    }
+
     /**
      * This is used to save the session tokens and scopes to local storage
      * Input parameter is a set of strings.
@@ -477,13 +1391,18 @@ export default class CognitoAuth {
      */
     cacheTokensScopes(): void {
         const keyPrefix = `CognitoIdentityServiceProvider.${this.getClientId()}`;
-        const tokenUserName = this.signInUserSession.getAccessToken().getUsername();
+        const tokenUserName = this.getTokenUsername();
         this.username = tokenUserName;
         const idTokenKey = `${keyPrefix}.${tokenUserName}.idToken`;
         const accessTokenKey = `${keyPrefix}.${tokenUserName}.accessToken`;
         const refreshTokenKey = `${keyPrefix}.${tokenUserName}.refreshToken`;
         const lastUserKey = `${keyPrefix}.LastAuthUser`;
         const scopeKey = `${keyPrefix}.${tokenUserName}.tokenScopesString`;
+        // the scopes granted to the access token, which may differ from the requested ones
+        const grantedScopes = this.signInUserSession.getAccessToken().getScopes();
+        if (grantedScopes.length > 0) {
+            this.signInUserSession.setTokenScopes(new CognitoTokenScopes(grantedScopes));
+        }
         const scopesArray = this.signInUserSession.getTokenScopes().getScopes();
         const scopesString = scopesArray.join(' ');
         this.storage.setItem(idTokenKey, this.signInUserSession.getIdToken().getJwtToken());
@@ -491,6 +1410,78 @@ export default class CognitoAuth {
         this.storage.setItem(refreshTokenKey, this.signInUserSession.getRefreshToken().getToken());
         this.storage.setItem(lastUserKey, tokenUserName);
         this.storage.setItem(scopeKey, scopesString);
+        const users = this.getCachedUsers();
+        this.setCachedUsers(users.indexOf(tokenUserName) < 0 ? users.concat(tokenUserName) : users);
+        this.notifyTabs();
+    }
+
+    /**
+     * Restore the cached session of the current user, with the scopes granted to its tokens,
+     * or the configured scopes without cached scopes.
+     * @returns {void}
+     */
+    private restoreCachedSession() {
+        this.signInUserSession = this.getCachedSession();
+        if (this.signInUserSession.getTokenScopes().getScopes().length === 0) {
+            this.signInUserSession.setTokenScopes(new CognitoTokenScopes(this.tokenScopesArray));
+        }
+    }
+
+    /**
+     * The storage cannot always be enumerated, the users with cached tokens are kept in an index.
+     * @returns {string} the key of the users index
+     */
+    private getLastUserKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.LastAuthUser`;
+    }
+
+    private getUsersKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.Users`;
+    }
+
+    private setCachedUsers(users: string[]) {
+        if (users.length > 0) {
+            this.storage.setItem(this.getUsersKey(), JSON.stringify(users));
+        } else {
+            this.storage.removeItem(this.getUsersKey());
+        }
+    }
+
+    /**
+     * @returns {array} the users with cached tokens for this client
+     */
+    getCachedUsers(): string[] {
+        let users: string[] = [];
+        try {
+            users = JSON.parse(this.storage.getItem(this.getUsersKey())) || [];
+        } catch (e) {
+            users = [];
+        }
+        // tokens cached before the users index existed
+        const lastUser = this.getLastUser();
+        if (lastUser && users.indexOf(lastUser) < 0 &&
+            this.storage.getItem(`CognitoIdentityServiceProvider.${this.getClientId()}.${lastUser}.accessToken`)) {
+            users = users.concat(lastUser);
+        }
+        return users;
+    }
+
+    /**
+     * Switch the current user to another user with cached tokens.
+     * @param {string} username the user
+     * @returns {CognitoAuthSession} the cached session of the user, refreshed by getSession() if needed
+     */
+    switchUser(username: string): CognitoAuthSession {
+        if (this.getCachedUsers().indexOf(username) < 0) {
+            throw new CognitoAuthError(CognitoConstants.USERNOTCACHEDERROR);
+        }
+        this.username = username;
+        this.storage.setItem(this.getLastUserKey(), username);
+        this.notifyTabs();
+        this.signInUserSession = this.getCachedSession(username);
+        this.userInfo = null;
+        this.refreshScheduler.schedule();
+        return this.signInUserSession;
     }
 
     /**
@@ -546,35 +1537,49 @@ export default class CognitoAuth {
     }
 
     /**
-     * helper function to generate a random string
+     * helper function to generate a cryptographically secure random string
      * @param {int} length the length of string
      * @param {string} chars a original string
      * @returns {string} a random value.
      */
     generateRandomString(length: number, chars: string): string {
+        // random bytes above the largest multiple of chars.length are discarded to avoid a modulo bias
+        const limit = 256 - (256 % chars.length);
         let result = '';
-        let i = length;
-        for (; i > 0; --i) result += chars[Math.round(Math.random() * (chars.length - 1))];
+        while (result.length < length) {
+            const bytes = getRandomValues(new Uint8Array(length - result.length));
+            for (let i = 0; i < bytes.length; i++) {
+                if (bytes[i] < limit) {
+                    result += chars[bytes[i] % chars.length];
+                }
+            }
+        }
         return result;
     }
 
     /**
      * This is used to clear the session tokens and scopes from local storage
+     * @param {string} username Optional: the user, by default the current one
      * @returns {void}
      */
-    clearCachedTokensScopes(): void {
+    clearCachedTokensScopes(username: string = this.username): void {
         const keyPrefix = `CognitoIdentityServiceProvider.${this.getClientId()}`;
-        const idTokenKey = `${keyPrefix}.${this.username}.idToken`;
-        const accessTokenKey = `${keyPrefix}.${this.username}.accessToken`;
-        const refreshTokenKey = `${keyPrefix}.${this.username}.refreshToken`;
+        const idTokenKey = `${keyPrefix}.${username}.idToken`;
+        const accessTokenKey = `${keyPrefix}.${username}.accessToken`;
+        const refreshTokenKey = `${keyPrefix}.${username}.refreshToken`;
         const lastUserKey = `${keyPrefix}.LastAuthUser`;
-        const scopeKey = `${keyPrefix}.${this.username}.tokenScopesString`;
+        const scopeKey = `${keyPrefix}.${username}.tokenScopesString`;
 
+        const users = this.getCachedUsers();
         this.storage.removeItem(idTokenKey);
         this.storage.removeItem(accessTokenKey);
         this.storage.removeItem(refreshTokenKey);
-        this.storage.removeItem(lastUserKey);
+        if (this.storage.getItem(lastUserKey) === username) {
+            this.storage.removeItem(lastUserKey);
+        }
         this.storage.removeItem(scopeKey);
+        this.setCachedUsers(users.filter(user => user !== username));
+        this.notifyTabs();
     }
 
     /**
@@ -583,40 +1588,43 @@ export default class CognitoAuth {
      * @returns {void}
      */
     refreshSession(refreshToken): Promise<CognitoAuthSession> {
+        if (this.responseType === CognitoConstants.TOKEN && this.silentRenew) {
+            return this.renewSessionSilently().catch(e => {
+                if (this.userhandler) {
+                    return undefined;
+                }
+                throw e;
+            });
+        }
         if (this.responseType === CognitoConstants.TOKEN) {
+            const error = new ConfigurationError(CognitoConstants.REFRESHTYPEERROR);
+            this.events.emit('refreshFailed', error);
             if (this.userhandler) {
-                this.userhandler.onFailure(CognitoConstants.REFRESHTYPEERROR);
-                return undefined;
+                return Promise.resolve(undefined);
             } else {
-                return Promise.reject(CognitoConstants.REFRESHTYPEERROR);
+                return Promise.reject(error);
             }
-            //TODO Login again?
         }
         else {
-            return this.makePostCode({
+            const refresh = (token: string) => this.makePostCode({
                 grant_type: CognitoConstants.REFRESHTOKEN,
-                refresh_token: refreshToken
-            }).then(map => {
-                if (map.has(CognitoConstants.ERROR)) {
-                    const URL = this.getFQDNSignIn();
-                    this.launchUri(URL);
-                    throw new Error(CognitoConstants.REFRESHTYPEERROR);
-                } else {
-                    if (map.has(CognitoConstants.IDTOKEN)) {
-                        this.signInUserSession.setIdToken(new CognitoToken(map.get(CognitoConstants.IDTOKEN)));
-                    }
-                    if (map.has(CognitoConstants.ACCESSTOKEN)) {
-                        this.signInUserSession.setAccessToken(new CognitoToken(map.get(CognitoConstants.ACCESSTOKEN)));
-                    }
-                    this.cacheTokensScopes();
-                    if (this.userhandler) {
-                        this.userhandler.onSuccess(this.signInUserSession);
-                    }
-                    return this.signInUserSession;
+                refresh_token: token
+            }).then(map => this.verifyTokens(map)).then(map => {
+                // an error response of the token endpoint rejects with an OAuthError
+                if (map.has(CognitoConstants.IDTOKEN)) {
+                    this.signInUserSession.setIdToken(new CognitoIdToken(map.get(CognitoConstants.IDTOKEN)));
+                }
+                if (map.has(CognitoConstants.ACCESSTOKEN)) {
+                    this.signInUserSession.setAccessToken(new CognitoAccessToken(map.get(CognitoConstants.ACCESSTOKEN)));
                 }
-            }).catch(e => {
+                this.cacheTokensScopes();
+                this.refreshScheduler.schedule();
+                this.events.emit('tokenRefreshed', this.signInUserSession);
+                return this.signInUserSession;
+            });
+            return (this.tabSync ? this.refreshInOneTab(refresh) : refresh(refreshToken)).catch(e => {
+                this.events.emit('refreshFailed', e);
                 if (this.userhandler) {
-                    this.userhandler.onFailure(e)
                     return undefined;
                 } else {
                     throw e;
@@ -626,65 +1634,93 @@ export default class CognitoAuth {
     }
 
     /**
-     * Make the http POST request.
+     * Refresh the tokens while holding the refresh lock of the tabs; the session is reloaded first,
+     * as another tab may have refreshed the tokens, or signed out, while this one was waiting.
+     * @param {function} refresh refreshes the tokens with a refresh token
+     * @returns {Promise<CognitoAuthSession>} the refreshed session
+     */
+    private refreshInOneTab(refresh: (refreshToken: string) => Promise<CognitoAuthSession>): Promise<CognitoAuthSession> {
+        const accessToken = this.signInUserSession ? this.signInUserSession.getAccessToken().getJwtToken() : undefined;
+        const lockName = `CognitoRefreshLock.${this.getClientId()}`;
+        const leaseStorage = this.storage instanceof AuthStorageCache ? new StorageHelper().getStorage() : this.storage;
+        return withTabLock(lockName, leaseStorage, () => this.syncSession().then(() => {
+            const session = this.signInUserSession;
+            if (session && session.getAccessToken().getJwtToken() !== accessToken &&
+                session.isValid(this.getSessionValidationOptions())) {
+                return session;
+            }
+            const refreshToken = session ? session.getRefreshToken().getToken() : undefined;
+            if (!refreshToken) {
+                throw new CognitoAuthError(CognitoConstants.REFRESHSIGNEDOUTERROR);
+            }
+            return refresh(refreshToken);
+        }));
+    }
+
+    /**
+     * Start refreshing the tokens in background, before the access token expiration.
+     * The refreshes are paused while the page is hidden or offline.
+     * @returns {void}
+     */
+    startAutoRefresh() {
+        this.refreshScheduler.start();
+    }
+
+    /**
+     * Stop refreshing the tokens in background.
+     * @returns {void}
+     */
+    stopAutoRefresh() {
+        this.refreshScheduler.stop();
+    }
+
+    /**
+     * Refresh the session scheduled by the auto refresh, only possible with a refresh token.
+     * @returns {Promise<CognitoAuthSession>} the refreshed session
+     */
+    private refreshSessionInBackground(): Promise<CognitoAuthSession> {
+        const refreshToken = this.signInUserSession ? this.signInUserSession.getRefreshToken() : null;
+        if (this.silentRenew && (this.responseType !== CognitoConstants.CODE || !refreshToken || !refreshToken.getToken())) {
+            return this.renewSessionSilently();
+        }
+        if (this.responseType !== CognitoConstants.CODE || !refreshToken || !refreshToken.getToken()) {
+            return Promise.reject(new ConfigurationError(CognitoConstants.REFRESHTYPEERROR));
+        }
+        return this.refreshSession(refreshToken.getToken());
+    }
+
+    /**
+     * Make the http POST request, with the body encoded as application/x-www-form-urlencoded.
      * @param {JSON} header header JSON object
      * @param {JSON} body body JSON object
      * @param {string} url string
-     * @param {function} onSuccess callback
-     * @param {function} onFailure callback
-     * @returns {void}
+     * @returns {Promise<string>} the response text, rejected with an OAuthError or a NetworkError
      */
     makePOSTRequest(header, body, url): Promise<string> {
-        // This is a sample server that supports CORS.
-        return new Promise((resolve, reject) => {
-            const xhr = this.createCORSRequest(CognitoConstants.POST, url);
-            let bodyString = '';
-            if (!xhr) {
-                return;
-            }
-            // set header
-            for (let key in header) {
-                xhr.setRequestHeader(key, header[key]);
-            }
-            for (let key in body) {
-                bodyString = bodyString.concat(key, CognitoConstants.EQUALSIGN,
-                    body[key], CognitoConstants.AMPERSAND);
-            }
-            bodyString = bodyString.substring(0, bodyString.length - 1);
-            xhr.send(bodyString);
-            xhr.onreadystatechange = function addressState() {
-                if (xhr.readyState === 4) {
-                    if (xhr.status === 200) {
-                        resolve(xhr.responseText)
-                    } else {
-                        reject(xhr.responseText)
-                    }
-                }
-            };
-        })
+        return this.sendRequest(CognitoConstants.POST, url, header, encodeFormBody(body));
     }
 
     /**
-     * Create the XHR object
-     * @param {string} method which method to call
-     * @param {string} url the url string
-     * @returns {object} xhr
-     */
-    createCORSRequest(method, url) {
-        let xhr = new XMLHttpRequest();
-        //xhr.open(method, url, true);
-        if (CognitoConstants.WITHCREDENTIALS in xhr) {
-            // XHR for Chrome/Firefox/Opera/Safari.
-            xhr.open(method, url, true);
-        } else if (typeof XDomainRequest !== CognitoConstants.UNDEFINED) {
-            // XDomainRequest for IE.
-            xhr = new XDomainRequest();
-            xhr.open(method, url);
-        } else {
-            // CORS not supported.
-            xhr = null;
-        }
-        return xhr;
+     * Make the http GET request.
+     * @param {string} url string
+     * @param {JSON} header Optional: header JSON object
+     * @returns {Promise<string>} the response text, rejected with an OAuthError or a NetworkError
+     */
+    makeGETRequest(url, header?): Promise<string> {
+        return this.sendRequest(CognitoConstants.GET, url, header);
+    }
+
+    /**
+     * Send a request with the http client, aborted after the http timeout.
+     * @param {string} method the http method
+     * @param {string} url the request url
+     * @param {JSON} headers the request headers
+     * @param {string} body the encoded body
+     * @returns {Promise<string>} the response text
+     */
+    private sendRequest(method: string, url: string, headers?: { [key: string]: string },
+        body?: string): Promise<string> {
+        return sendHttpRequest(this.httpClient, { method, url, headers, body }, this.httpTimeout);
     }
 
     /**
@@ -704,18 +1740,17 @@ export default class CognitoAuth {
         const jsonDataObject = JSON.parse(jsonData);
         if (Object.prototype.hasOwnProperty.call(jsonDataObject,
             CognitoConstants.ERROR)) {
-            const URL = this.getFQDNSignIn();
-            this.launchUri(URL);
+            await this.launchSignIn();
         } else {
             if (Object.prototype.hasOwnProperty.call(jsonDataObject,
                 CognitoConstants.IDTOKEN)) {
                 this.signInUserSession.setIdToken(new
-                    CognitoToken(jsonDataObject.id_token));
+                    CognitoIdToken(jsonDataObject.id_token));
             }
             if (Object.prototype.hasOwnProperty.call(jsonDataObject,
                 CognitoConstants.ACCESSTOKEN)) {
                 this.signInUserSession.setAccessToken(new
-                    CognitoToken(jsonDataObject.access_token));
+                    CognitoAccessToken(jsonDataObject.access_token));
             }
             this.cacheTokensScopes();
             return this.signInUserSession;
@@ -731,11 +1766,59 @@ export default class CognitoAuth {
      */
     launchUri(URL: string) { }
 
+    /**
+     * Generate the PKCE code verifier and launch Cognito Auth UI page.
+     * @returns {Promise<void>} resolved when the page has been launched
+     */
+    private launchSignIn(): Promise<void> {
+        return this.prepareFQDNSignIn().then(URL => {
+            this.events.emit('redirecting', URL);
+            this.launchUri(URL);
+        });
+    }
+
+    /**
+     * @returns {string} the storage key of the PKCE code verifier
+     */
+    private getCodeVerifierKey(): string {
+        return `CognitoIdentityServiceProvider.${this.getClientId()}.codeVerifier`;
+    }
+
+    /**
+     * When using the code grant flow, generate a new PKCE code verifier, persist it in the storage
+     * for the authorization code exchange and create its code challenge.
+     * @returns {Promise<string>} the FQDN for authorization endpoint
+     */
+    prepareFQDNSignIn(): Promise<string> {
+        return this.loadOpenIdConfiguration().then(() => {
+            if (this.responseType !== CognitoConstants.CODE) {
+                return this.getFQDNSignIn();
+            }
+            const codeVerifier = this.generateRandomString(CognitoConstants.CODEVERIFIERLENGTH,
+                CognitoConstants.STATEORIGINSTRING);
+            return createCodeChallenge(codeVerifier, this.allowPlainCodeChallenge).then(result => {
+                this.storage.setItem(this.getCodeVerifierKey(), codeVerifier);
+                this.codeChallenge = result.codeChallenge;
+                this.codeChallengeMethod = result.codeChallengeMethod;
+                return this.getFQDNSignIn();
+            });
+        });
+    }
+
+    /**
+     * @returns {array} the scopes to request: the TokenScopesArray scopes, and the additional scopes
+     *          being requested with requestAdditionalScopes()
+     */
+    getRequestedScopes(): string[] {
+        return this.tokenScopesArray.concat(
+            this.additionalScopes.filter(scope => this.tokenScopesArray.indexOf(scope) < 0));
+    }
+
     /**
      * @returns {string} scopes string
      */
     getSpaceSeperatedScopeString(): string {
-        const tokenScopes = this.signInUserSession.getTokenScopes().getScopes();
+        const tokenScopes = this.getRequestedScopes();
         const tokenScopesString = tokenScopes.join(CognitoConstants.SPACE);
         return encodeURIComponent(tokenScopesString);
     }
@@ -749,6 +1832,18 @@ export default class CognitoAuth {
             this.state = this.generateRandomString(CognitoConstants.STATELENGTH,
                 CognitoConstants.STATEORIGINSTRING);
         }
+        if (this.nonce == null) {
+            this.nonce = this.generateRandomString(CognitoConstants.NONCELENGTH,
+                CognitoConstants.STATEORIGINSTRING);
+        }
+        // persisted to be verified when parsing the response, after the redirect
+        this.storage.setItem(this.getStateKey(), this.state);
+        this.storage.setItem(this.getNonceKey(), this.nonce);
+        if (this.additionalScopes.length > 0) {
+            this.storage.setItem(this.getAdditionalScopesKey(), this.additionalScopes.join(CognitoConstants.SPACE));
+        } else {
+            this.storage.removeItem(this.getAdditionalScopesKey());
+        }
 
         const identityProviderParam = this.identityProvider
             ? CognitoConstants.AMPERSAND.concat(
@@ -764,10 +1859,16 @@ export default class CognitoAuth {
                 CognitoConstants.EQUALSIGN + this.getUserContextData();
         }
 
+        const codeChallengeParam = this.responseType === CognitoConstants.CODE && this.codeChallenge
+            ? CognitoConstants.AMPERSAND.concat(
+                CognitoConstants.DOMAIN_QUERY_PARAM_CODE_CHALLENGE,
+                CognitoConstants.EQUALSIGN, this.codeChallenge, CognitoConstants.AMPERSAND,
+                CognitoConstants.DOMAIN_QUERY_PARAM_CODE_CHALLENGE_METHOD,
+                CognitoConstants.EQUALSIGN, this.codeChallengeMethod)
+            : '';
+
         // Build the complete web domain to launch the login screen
-        const uri = CognitoConstants.DOMAIN_SCHEME.concat(
-            CognitoConstants.COLONDOUBLESLASH, this.getAppWebDomain(),
-            CognitoConstants.SLASH, CognitoConstants.DOMAIN_PATH_SIGNIN,
+        const uri = this.getUrlAuthorize().concat(
             CognitoConstants.QUESTIONMARK,
             CognitoConstants.DOMAIN_QUERY_PARAM_REDIRECT_URI,
             CognitoConstants.EQUALSIGN, encodeURIComponent(this.redirectUriSignIn),
@@ -777,22 +1878,89 @@ export default class CognitoAuth {
             this.responseType, CognitoConstants.AMPERSAND, CognitoConstants.CLIENT_ID,
             CognitoConstants.EQUALSIGN, this.getClientId(),
             CognitoConstants.AMPERSAND, CognitoConstants.STATE,
-            CognitoConstants.EQUALSIGN, this.state, CognitoConstants.AMPERSAND,
+            CognitoConstants.EQUALSIGN, encodeURIComponent(this.state), CognitoConstants.AMPERSAND,
+            CognitoConstants.NONCE, CognitoConstants.EQUALSIGN, encodeURIComponent(this.nonce),
+            CognitoConstants.AMPERSAND,
             CognitoConstants.SCOPE, CognitoConstants.EQUALSIGN, tokenScopesString, identityProviderParam,
-            userContextDataParam);
+            codeChallengeParam, userContextDataParam);
 
         return uri;
     }
 
     /**
-     * Sign out the user.
-     * @returns {void}
+     * Sign out the user: the cached tokens are cleared, the refresh token is revoked
+     * unless the mode is 'local', then the hosted UI session is signed out if the mode is 'full'.
+     * @param {string} mode 'local', 'revoke' or 'full' (default)
+     * @returns {Promise<void>} resolved once the revocation completes or fails
      */
-    signOut(): void {
-        const URL = this.getFQDNSignOut();
+    signOut(mode: CognitoSignOutMode = 'full'): Promise<void> {
+        // the auto refresh resumes with the next session
+        this.refreshScheduler.cancel();
+        const refreshToken = this.signInUserSession && this.signInUserSession.getRefreshToken()
+            ? this.signInUserSession.getRefreshToken().getToken() : undefined;
         this.signInUserSession = null;
+        this.userInfo = null;
         this.clearCachedTokensScopes();
-        this.launchUri(URL);
+        this.events.emit('signedOut');
+        const revokePromise = mode === 'local' ? Promise.resolve() :
+            this.revokeRefreshToken(refreshToken).catch(() => undefined);
+        return revokePromise.then(() => {
+            if (mode === 'full') {
+                // the logout endpoint is derived from the discovery document
+                return this.loadOpenIdConfiguration().catch(() => undefined).then(() => {
+                    const URL = this.getFQDNSignOut();
+                    this.events.emit('redirecting', URL);
+                    this.launchUri(URL);
+                });
+            }
+        });
+    }
+
+    /**
+     * Sign out a user with cached tokens, the current user is signed out with signOut().
+     * @param {string} username the user
+     * @param {string} mode 'local' or 'revoke' (default)
+     * @returns {Promise<void>} resolved once the revocation completes or fails
+     */
+    signOutUser(username: string, mode: CognitoSignOutMode = 'revoke'): Promise<void> {
+        const localMode = mode === 'local' ? 'local' : 'revoke';
+        if (username === this.username) {
+            return this.signOut(localMode);
+        }
+        const refreshToken = this.getCachedSession(username).getRefreshToken().getToken();
+        this.clearCachedTokensScopes(username);
+        return localMode === 'local' ? Promise.resolve() :
+            this.revokeRefreshToken(refreshToken).catch(() => undefined);
+    }
+
+    /**
+     * Sign out all the users with cached tokens, then the current user with signOut().
+     * @param {string} mode 'local', 'revoke' or 'full' (default)
+     * @returns {Promise<void>} resolved once the revocations complete or fail
+     */
+    signOutAll(mode: CognitoSignOutMode = 'full'): Promise<void> {
+        const otherUsers = this.getCachedUsers().filter(user => user !== this.username);
+        return Promise.all(otherUsers.map(user => this.signOutUser(user, mode)))
+            .then(() => this.signOut(mode));
+    }
+
+    /**
+     * Revoke the refresh token, and the access tokens issued with it, using the revocation endpoint.
+     * @param {string} refreshToken Optional: the refresh token, by default the one of the current session
+     * @returns {Promise<void>} resolved once the token is revoked, rejected if the revocation fails
+     */
+    revokeRefreshToken(refreshToken?: string): Promise<void> {
+        const token = refreshToken || (this.signInUserSession && this.signInUserSession.getRefreshToken()
+            ? this.signInUserSession.getRefreshToken().getToken() : undefined);
+        if (!token) {
+            return Promise.resolve();
+        }
+        const { headers, body } = this.authenticateClient({
+            token,
+            client_id: this.getClientId(),
+        });
+        return this.withOpenIdConfiguration(() => this.makePOSTRequest(headers, body, this.getUrlRevoke()))
+            .then(() => undefined);
     }
 
     /**
@@ -800,9 +1968,7 @@ export default class CognitoAuth {
      * @returns {string} url
      */
     getFQDNSignOut(): string {
-        const uri = CognitoConstants.DOMAIN_SCHEME.concat(
-            CognitoConstants.COLONDOUBLESLASH, this.getAppWebDomain(),
-            CognitoConstants.SLASH, CognitoConstants.DOMAIN_PATH_SIGNOUT,
+        const uri = this.getUrlSignOut().concat(
             CognitoConstants.QUESTIONMARK,
             CognitoConstants.DOMAIN_QUERY_PARAM_SIGNOUT_URI,
             CognitoConstants.EQUALSIGN, encodeURIComponent(this.redirectUriSignOut),
@@ -839,13 +2005,57 @@ export default class CognitoAuth {
         }
     }
 
+    /**
+     * Get the profile of the signed in user from the userInfo endpoint, with the current access token,
+     * refreshed first through getSession() if needed. The profile is cached per access token.
+     * @returns {Promise<CognitoUserInfo>} the user info, rejected if there is no signed in session
+     */
+    getUserInfo(): Promise<CognitoUserInfo> {
+        const sessionPromise = this.signInUserSession != null &&
+            this.signInUserSession.isValid(this.getSessionValidationOptions()) ?
+            Promise.resolve(this.signInUserSession) : this.getSession();
+        return sessionPromise.then(session => {
+            const accessToken = session && session.getAccessToken().getJwtToken();
+            if (!accessToken) {
+                throw new CognitoAuthError(CognitoConstants.USERINFOSESSIONERROR);
+            }
+            if (!this.userInfo || this.userInfo.accessToken !== accessToken) {
+                const header = { [CognitoConstants.AUTHORIZATION]: CognitoConstants.BEARER.concat(accessToken) };
+                const userInfo = this.withOpenIdConfiguration(() => this.makeGETRequest(this.getUrlUserInfo(), header))
+                    .then(data => parseUserInfo(JSON.parse(data)));
+                this.userInfo = { accessToken, userInfo };
+                userInfo.catch(() => {
+                    if (this.userInfo && this.userInfo.userInfo === userInfo) {
+                        this.userInfo = null;
+                    }
+                });
+            }
+            return this.userInfo.userInfo;
+        });
+    }
+
+    /**
+     * Checks that the current session is valid and that the policy is satisfied by its granted
+     * scopes and groups, e.g. auth.requireAuth({ scopes: ['orders/read'], groups: ['admin'] }).
+     * @param {object} policy the scopes that all have to be granted and the groups of which
+     *        the user has to be a member of one at least
+     * @returns {object} the result, with the denial reason and the missing scopes or groups when not allowed
+     */
+    requireAuth(policy: CognitoAuthorizationPolicy = {}): CognitoAuthorizationResult {
+        if (this.signInUserSession == null) {
+            return { allowed: false, reason: 'unauthenticated', validation: { valid: false, reason: 'missingToken' } };
+        }
+        return this.signInUserSession.requireAuth(policy, this.getSessionValidationOptions());
+    }
+
     /**
      * Helper method to let the user know if he has either a valid cached session 
      * or a valid authenticated session from the app integration callback.
      * @returns {boolean} userSignedIn 
      */
     isUserSignedIn(): boolean {
-        return (this.signInUserSession != null && this.signInUserSession.isValid()) ||
-            (this.getCachedSession() != null && this.getCachedSession().isValid());
+        const validationOptions = this.getSessionValidationOptions();
+        return (this.signInUserSession != null && this.signInUserSession.isValid(validationOptions)) ||
+            (this.getCachedSession() != null && this.getCachedSession().isValid(validationOptions));
     }
 }
\ No newline at end of file
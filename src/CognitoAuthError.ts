@@ -0,0 +1,62 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+export interface CognitoAuthErrorDetails {
+  /**
+   * The OAuth error code, e.g. invalid_grant or access_denied.
+   */
+  code?: string;
+
+  /**
+   * The OAuth error description.
+   */
+  description?: string;
+
+  /**
+   * The HTTP status of the response.
+   */
+  status?: number;
+
+  /**
+   * The raw response, body or callback parameters.
+   */
+  response?: any;
+}
+
+/** @class */
+export default class CognitoAuthError extends Error {
+  code: string;
+  description: string;
+  status: number;
+  response: any;
+
+  /**
+   * Constructs a new CognitoAuthError object, the base class of the errors raised by the library.
+   * @param {string} message The error message.
+   * @param {object=} details The OAuth error code and description, the HTTP status and the raw response.
+   */
+  constructor(message: string, { code, description, status, response }: CognitoAuthErrorDetails = {}) {
+    super(message);
+    this.name = 'CognitoAuthError';
+    this.code = code;
+    this.description = description;
+    this.status = status;
+    this.response = response;
+    // restore the prototype chain, lost when extending Error with an ES5 target
+    Object.setPrototypeOf(this, CognitoAuthError.prototype);
+  }
+}
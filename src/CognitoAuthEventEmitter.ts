@@ -0,0 +1,145 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoAuthError from './CognitoAuthError';
+import CognitoAuthSession, { CognitoSessionValidationResult } from './CognitoAuthSession';
+
+export interface CognitoScopeMismatch {
+  /**
+   * The TokenScopesArray scopes.
+   */
+  requested: string[];
+
+  /**
+   * The scopes granted to the cached tokens.
+   */
+  granted: string[];
+
+  /**
+   * The requested scopes that were not granted.
+   */
+  missing: string[];
+}
+
+export interface CognitoAuthEventMap {
+  /**
+   * New tokens were obtained from the authorization callback, or by another tab.
+   */
+  signedIn: CognitoAuthSession;
+
+  /**
+   * The user signed out.
+   */
+  signedOut: void;
+
+  /**
+   * The tokens have been refreshed.
+   */
+  tokenRefreshed: CognitoAuthSession;
+
+  /**
+   * The tokens could not be refreshed, with the error.
+   */
+  refreshFailed: CognitoAuthError;
+
+  /**
+   * The current session is not valid anymore, with the check that failed.
+   */
+  sessionExpired: CognitoSessionValidationResult;
+
+  /**
+   * The cached tokens were not granted all the requested scopes, with the ScopeMismatch 'warn' mode.
+   */
+  scopeMismatch: CognitoScopeMismatch;
+
+  /**
+   * The hosted UI is about to be launched, with its url.
+   */
+  redirecting: string;
+
+  /**
+   * The authorization callback could not be processed, with the error.
+   */
+  callbackError: CognitoAuthError;
+}
+
+export type CognitoAuthEventListener<T> = (data: T) => void;
+
+// the once() wrapper keeps the subscribed listener, so that off() can remove it
+type OnceListener<T> = CognitoAuthEventListener<T> & { listener?: CognitoAuthEventListener<T> };
+
+/** @class */
+export default class CognitoAuthEventEmitter<EventMap> {
+  private listeners: { [K in keyof EventMap]?: CognitoAuthEventListener<EventMap[K]>[] } = {};
+
+  /**
+   * Subscribe to an event
+   * @param {string} event the event name
+   * @param {function} listener called with the event data
+   * @returns {function} unsubscribes the listener
+   */
+  on<K extends keyof EventMap>(event: K, listener: CognitoAuthEventListener<EventMap[K]>): () => void {
+    this.listeners[event] = (this.listeners[event] || []).concat(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event
+   * @param {string} event the event name
+   * @param {function} listener called with the event data
+   * @returns {function} unsubscribes the listener
+   */
+  once<K extends keyof EventMap>(event: K, listener: CognitoAuthEventListener<EventMap[K]>): () => void {
+    const onceListener: OnceListener<EventMap[K]> = (data: EventMap[K]) => {
+      this.off(event, onceListener);
+      listener(data);
+    };
+    onceListener.listener = listener;
+    return this.on(event, onceListener);
+  }
+
+  /**
+   * Unsubscribe from an event
+   * @param {string} event the event name
+   * @param {function} listener the listener subscribed with on() or once()
+   * @returns {void}
+   */
+  off<K extends keyof EventMap>(event: K, listener: CognitoAuthEventListener<EventMap[K]>) {
+    const listeners: OnceListener<EventMap[K]>[] = this.listeners[event];
+    if (listeners) {
+      this.listeners[event] = listeners.filter(item => item !== listener && item.listener !== listener);
+    }
+  }
+
+  /**
+   * Call the listeners of an event, a failing listener does not prevent the others from being called.
+   * @param {string} event the event name
+   * @param {object} data the event data
+   * @returns {void}
+   */
+  emit<K extends keyof EventMap>(event: K, data?: EventMap[K]) {
+    const listeners = this.listeners[event] || [];
+    listeners.forEach(listener => {
+      try {
+        listener(data);
+      } catch (e) {
+        setTimeout(() => {
+          throw e;
+        });
+      }
+    });
+  }
+}
@@ -17,7 +17,20 @@
 
 import CognitoTokenScopes from './CognitoTokenScopes';
 import CognitoToken from './CognitoToken';
+import CognitoIdToken from './CognitoIdToken';
+import CognitoAccessToken from './CognitoAccessToken';
 import CognitoRefreshToken from './CognitoRefreshToken';
+import { CognitoAuthorizationPolicy, CognitoAuthorizationResult, evaluatePolicy, isScopeGranted } from './AuthorizationHelper';
+import { isUserPoolIssuer } from './EndpointHelper';
+
+// the tokens are wrapped in their typed class, as sessions may be built with plain CognitoToken objects
+const toIdToken = (token: CognitoToken): CognitoIdToken =>
+  token == null || token instanceof CognitoIdToken ? token as CognitoIdToken :
+    new CognitoIdToken(token.getJwtToken() || '');
+
+const toAccessToken = (token: CognitoToken): CognitoAccessToken =>
+  token == null || token instanceof CognitoAccessToken ? token as CognitoAccessToken :
+    new CognitoAccessToken(token.getJwtToken() || '');
 
 export interface CognitoSessionData {
   /**
@@ -46,12 +59,52 @@ export interface CognitoSessionData {
   State?: string;
 }
 
+export interface CognitoSessionValidationOptions {
+  /**
+   * The user pool application client id, expected in the aud claim of the Id token
+   * and in the client_id claim of the access token.
+   */
+  ClientId?: string;
+
+  /**
+   * The expected iss claim, the issuer of the user pool. The token_use and client_id claims are only
+   * checked for a Cognito user pool issuer, the sub claim is required otherwise.
+   */
+  Issuer?: string;
+
+  /**
+   * The clock skew tolerance, in seconds, applied to the exp, nbf and iat claims.
+   */
+  ClockSkew?: number;
+}
+
+export type CognitoSessionValidationReason =
+  'missingToken' | 'invalidToken' | 'expired' | 'notYetValid' | 'issuedInFuture' |
+  'invalidTokenUse' | 'invalidIssuer' | 'invalidAudience' | 'invalidClientId';
+
+export interface CognitoSessionValidationResult {
+  /**
+   * Whether the session is valid.
+   */
+  valid: boolean;
+
+  /**
+   * The check that failed.
+   */
+  reason?: CognitoSessionValidationReason;
+
+  /**
+   * The token that failed the check, 'id' or 'access'.
+   */
+  token?: string;
+}
+
 /** @class */
 export default class CognitoAuthSession {
 
-  idToken: CognitoToken;
+  idToken: CognitoIdToken;
   refreshToken: CognitoRefreshToken;
-  accessToken: CognitoToken;
+  accessToken: CognitoAccessToken;
   state: string;
   tokenScopes: CognitoTokenScopes;
 	/**
@@ -64,25 +117,25 @@ export default class CognitoAuthSession {
 	 */
   constructor({ IdToken,
     RefreshToken, AccessToken, TokenScopes, State }:CognitoSessionData = {
-      IdToken: new CognitoToken(),
+      IdToken: new CognitoIdToken(),
       RefreshToken: new CognitoRefreshToken(),
-      AccessToken: new CognitoToken(),
+      AccessToken: new CognitoAccessToken(),
       TokenScopes: new CognitoTokenScopes(),
       State: null
     }) {
-    this.idToken = IdToken;
+    this.idToken = toIdToken(IdToken);
     this.refreshToken = RefreshToken;
-    this.accessToken = AccessToken;
+    this.accessToken = toAccessToken(AccessToken);
     this.tokenScopes = TokenScopes;
     this.state = State;
   }
 
 
   /**
-   * @returns {CognitoIdToken} the session's Id token
+   * @returns {CognitoIdToken} the session's Id token, typed with the application claims
    */
-  getIdToken(): CognitoToken {
-    return this.idToken;
+  getIdToken<Claims extends object = {}>(): CognitoIdToken<Claims> {
+    return this.idToken as CognitoIdToken<Claims>;
   }
 
   /**
@@ -91,7 +144,7 @@ export default class CognitoAuthSession {
    * @returns {void}
    */
   setIdToken(IdToken: CognitoToken) {
-    this.idToken = IdToken;
+    this.idToken = toIdToken(IdToken);
   }
 
   /**
@@ -111,10 +164,10 @@ export default class CognitoAuthSession {
   }
 
   /**
-   * @returns {CognitoAccessToken} the session's access token
+   * @returns {CognitoAccessToken} the session's access token, typed with the application claims
    */
-  getAccessToken(): CognitoToken {
-    return this.accessToken;
+  getAccessToken<Claims extends object = {}>(): CognitoAccessToken<Claims> {
+    return this.accessToken as CognitoAccessToken<Claims>;
   }
 
   /**
@@ -123,7 +176,7 @@ export default class CognitoAuthSession {
    * @returns {void}
    */
   setAccessToken(AccessToken: CognitoToken) {
-    this.accessToken = AccessToken;
+    this.accessToken = toAccessToken(AccessToken);
   }
 
   /**
@@ -159,22 +212,161 @@ export default class CognitoAuthSession {
   }
 
   /**
-   * Checks to see if the session is still valid based on session expiry information found
+   * Checks to see if the session is still valid based on the claims found
    * in Access and Id Tokens and the current time
+   * @param {object} options the expected client id, issuer and the clock skew tolerance
    * @returns {boolean} if the session is still valid
    */
-  isValid(): boolean {
+  isValid(options: CognitoSessionValidationOptions = {}): boolean {
+    return this.validate(options).valid;
+  }
+
+  /**
+   * Validates the claims of the Access and Id Tokens: exp, nbf and iat against the current time,
+   * token_use, iss, and aud (Id token) or client_id (Access token). Tokens of an issuer other than
+   * a Cognito user pool are checked for the standard sub and aud (Id token) claims instead.
+   * @param {object} options the expected client id, issuer and the clock skew tolerance
+   * @returns {object} the validation result, with the failed check and token when not valid
+   */
+  validate(options: CognitoSessionValidationOptions = {}): CognitoSessionValidationResult {
     const now = Math.floor(new Date().getTime() / 1000);
-    try {
-      if (this.accessToken != null) {
-        return now < this.accessToken.getExpiration();
+    const hasAccessToken = this.accessToken != null && Boolean(this.accessToken.getJwtToken());
+    const hasIdToken = this.idToken != null && Boolean(this.idToken.getJwtToken());
+    if (!hasAccessToken && !hasIdToken) {
+      return { valid: false, reason: 'missingToken' };
+    }
+    let reason;
+    if (hasAccessToken) {
+      reason = this.validateToken(this.accessToken, 'access', now, options);
+      if (reason) {
+        return { valid: false, reason, token: 'access' };
       }
-      if (this.idToken != null) {
-        return now < this.idToken.getExpiration();
+    }
+    if (hasIdToken) {
+      reason = this.validateToken(this.idToken, 'id', now, options);
+      if (reason) {
+        return { valid: false, reason, token: 'id' };
       }
-      return false;
+    }
+    return { valid: true };
+  }
+
+  /**
+   * @returns {array} the scopes granted to the access token (scope claim), not the requested ones
+   */
+  getGrantedScopes(): string[] {
+    return this.accessToken ? this.accessToken.getScopes() : [];
+  }
+
+  /**
+   * @returns {array} the groups of the user (cognito:groups claim of the access token, else of the Id token)
+   */
+  getGroups(): string[] {
+    const groups = this.accessToken ? this.accessToken.getGroups() : [];
+    return groups.length > 0 || !this.idToken ? groups : this.idToken.getGroups();
+  }
+
+  /**
+   * @param {string} scope the scope, e.g. 'orders/read', or 'orders/*' for any scope of the resource server
+   * @returns {boolean} whether the scope is granted
+   */
+  hasScope(scope: string): boolean {
+    return isScopeGranted(this.getGrantedScopes(), scope);
+  }
+
+  /**
+   * @param {array} scopes the scopes
+   * @returns {boolean} whether all the scopes are granted
+   */
+  hasAllScopes(scopes: ReadonlyArray<string>): boolean {
+    return scopes.every(scope => this.hasScope(scope));
+  }
+
+  /**
+   * @param {array} scopes the scopes
+   * @returns {boolean} whether one of the scopes at least is granted
+   */
+  hasAnyScope(scopes: ReadonlyArray<string>): boolean {
+    return scopes.some(scope => this.hasScope(scope));
+  }
+
+  /**
+   * @param {string} group the Cognito group
+   * @returns {boolean} whether the user is a member of the group
+   */
+  hasGroup(group: string): boolean {
+    return this.getGroups().indexOf(group) >= 0;
+  }
+
+  /**
+   * @param {array} groups the Cognito groups
+   * @returns {boolean} whether the user is a member of one of the groups at least
+   */
+  hasAnyGroup(groups: ReadonlyArray<string>): boolean {
+    return groups.some(group => this.hasGroup(group));
+  }
+
+  /**
+   * Checks that the session is valid and that the policy is satisfied by the granted claims.
+   * @param {object} policy the scopes that all have to be granted and the groups of which
+   *        the user has to be a member of one at least
+   * @param {object} options the expected client id, issuer and the clock skew tolerance
+   * @returns {object} the result, with the denial reason and the missing scopes or groups when not allowed
+   */
+  requireAuth(policy: CognitoAuthorizationPolicy = {},
+    options: CognitoSessionValidationOptions = {}): CognitoAuthorizationResult {
+    return evaluatePolicy({
+      validation: this.validate(options),
+      scopes: this.getGrantedScopes(),
+      groups: this.getGroups(),
+    }, policy);
+  }
+
+  /**
+   * @param {CognitoToken} token the token to validate
+   * @param {string} tokenUse the expected token_use claim, for a Cognito user pool issuer
+   * @param {int} now the current time in seconds
+   * @param {object} options the expected client id, issuer and the clock skew tolerance
+   * @returns {string} the failed check, undefined if the token is valid
+   */
+  private validateToken(token: CognitoToken, tokenUse: string, now: number,
+    options: CognitoSessionValidationOptions): CognitoSessionValidationReason {
+    let payload: any;
+    try {
+      payload = token.decodePayload();
     } catch (e) {
-      return false;
+      return 'invalidToken';
+    }
+    const clockSkew = options.ClockSkew || 0;
+    const userPool = isUserPoolIssuer(options.Issuer);
+    if (typeof payload.exp !== 'number' || (!userPool && typeof payload.sub !== 'string')) {
+      return 'invalidToken';
+    }
+    if (now >= payload.exp + clockSkew) {
+      return 'expired';
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf > now + clockSkew) {
+      return 'notYetValid';
+    }
+    if (typeof payload.iat === 'number' && payload.iat > now + clockSkew) {
+      return 'issuedInFuture';
+    }
+    if (userPool && payload.token_use !== tokenUse) {
+      return 'invalidTokenUse';
+    }
+    if (options.Issuer && payload.iss !== options.Issuer) {
+      return 'invalidIssuer';
+    }
+    if (options.ClientId) {
+      if (tokenUse === 'id') {
+        const audience = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+        if (audience.indexOf(options.ClientId) < 0) {
+          return 'invalidAudience';
+        }
+      } else if (userPool && payload.client_id !== options.ClientId) {
+        return 'invalidClientId';
+      }
     }
+    return undefined;
   }
 }
@@ -0,0 +1,231 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+import CognitoAccessToken from './CognitoAccessToken';
+import { AuthStorage } from './AuthStorage';
+import { getDomainUrl } from './EndpointHelper';
+import { HttpClient, encodeFormBody, sendHttpRequest, getDefaultHttpClient } from './HttpClient';
+import { CognitoClientAuthMethod, checkClientSecret, authenticateClient } from './ClientAuthHelper';
+
+export interface CognitoClientCredentialsOptions {
+  /**
+   * Required: User pool application client id.
+   */
+  ClientId: string;
+
+  /**
+   * Required: The app client secret.
+   */
+  ClientSecret: string;
+
+  /**
+   * Required: The application/user-pools Cognito web hostname,this is set at the Cognito console.
+   */
+  AppWebDomain: string;
+
+  /**
+   * Optional: How the client secret is sent, 'client_secret_basic' or 'client_secret_post'.
+   * By default, it is set to 'client_secret_basic'.
+   */
+  ClientAuthMethod?: CognitoClientAuthMethod;
+
+  /**
+   * Optional: The storage caching the access tokens, possibly asynchronous; by default they are cached in memory.
+   */
+  Storage?: AuthStorage;
+
+  /**
+   * Optional: Number of seconds before the access token expiration to fetch a new one.
+   * By default, it is set to 60 seconds.
+   */
+  RefreshBeforeSeconds?: number;
+
+  /**
+   * Optional: The http client used for the requests to the token endpoint.
+   */
+  HttpClient?: HttpClient;
+
+  /**
+   * Optional: The timeout of the requests to the token endpoint, in milliseconds.
+   */
+  HttpTimeout?: number;
+
+  /**
+   * Optional: boolean flag allowing the client secret in a browser. By default, this flag is set to false.
+   */
+  AllowClientSecretInBrowser?: boolean;
+}
+
+interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * @returns {object} an in-memory storage, not shared with the other instances
+ */
+const createMemoryStorage = (): AuthStorage => {
+  const items: { [key: string]: string } = {};
+  return {
+    getItem: key => Object.prototype.hasOwnProperty.call(items, key) ? items[key] : null,
+    setItem: (key, value) => {
+      items[key] = value;
+    },
+    removeItem: key => {
+      delete items[key];
+    },
+  };
+};
+
+/** @class */
+export default class CognitoClientCredentials {
+  clientId: string;
+  private clientSecret: string;
+  appWebDomain: string;
+  clientAuthMethod: CognitoClientAuthMethod;
+  storage: AuthStorage;
+  refreshBeforeSeconds: number;
+  httpClient: HttpClient;
+  httpTimeout: number;
+  private pendingTokens: { [key: string]: Promise<CognitoAccessToken> };
+
+  /**
+   * Constructs a new CognitoClientCredentials object, requesting access tokens with the client credentials grant.
+   * @param {object} data Creation options
+   * @param {string} data.ClientId Required: User pool application client id.
+   * @param {string} data.ClientSecret Required: The app client secret.
+   * @param {string} data.AppWebDomain Required: The application/user-pools Cognito web hostname.
+   * @param {string} data.ClientAuthMethod Optional: 'client_secret_basic' or 'client_secret_post'.
+   * @param {object} data.Storage Optional: The storage caching the access tokens, in memory by default.
+   * @param {int} data.RefreshBeforeSeconds Optional: Number of seconds before the access token expiration
+   *        to fetch a new one.
+   * @param {object} data.HttpClient Optional: The http client used for the requests to the token endpoint.
+   * @param {int} data.HttpTimeout Optional: The timeout of the requests to the token endpoint, in milliseconds.
+   * @param {boolean} data.AllowClientSecretInBrowser Optional: boolean flag allowing the client secret in a browser.
+   */
+  constructor(data: CognitoClientCredentialsOptions) {
+    const { ClientId, ClientSecret, AppWebDomain, ClientAuthMethod, Storage, RefreshBeforeSeconds,
+      HttpClient, HttpTimeout, AllowClientSecretInBrowser } = data || {} as CognitoClientCredentialsOptions;
+    if (!ClientId || !ClientSecret || !AppWebDomain) {
+      throw new ConfigurationError(CognitoConstants.CLIENTCREDENTIALSPARAMETERERROR);
+    }
+    checkClientSecret(ClientSecret, ClientAuthMethod, AllowClientSecretInBrowser);
+    this.clientId = ClientId;
+    this.clientSecret = ClientSecret;
+    this.appWebDomain = AppWebDomain;
+    this.clientAuthMethod = ClientAuthMethod || CognitoConstants.CLIENTSECRETBASIC as CognitoClientAuthMethod;
+    this.storage = Storage || createMemoryStorage();
+    this.refreshBeforeSeconds = typeof RefreshBeforeSeconds === 'number' ?
+      RefreshBeforeSeconds : CognitoConstants.CLIENTCREDENTIALSREFRESHSECONDS;
+    this.httpClient = HttpClient || getDefaultHttpClient();
+    this.httpTimeout = HttpTimeout;
+    this.pendingTokens = {};
+  }
+
+  /**
+   * Get an access token for the scopes, from the cache unless it expires within RefreshBeforeSeconds.
+   * Concurrent calls for the same scopes share the same token request.
+   * @param {array} scopes Optional: the resource server scopes, e.g. ['orders/read'];
+   *        by default all the scopes allowed for the app client
+   * @returns {Promise<CognitoAccessToken>} the access token
+   */
+  getAccessToken(scopes: ReadonlyArray<string> = []): Promise<CognitoAccessToken> {
+    const key = this.getCacheKey(scopes);
+    if (!this.pendingTokens[key]) {
+      const clear = () => {
+        delete this.pendingTokens[key];
+      };
+      this.pendingTokens[key] = this.getCachedAccessToken(key).then(cached => {
+        if (cached && cached.expiresAt - this.refreshBeforeSeconds > Math.floor(Date.now() / 1000)) {
+          return new CognitoAccessToken(cached.accessToken);
+        }
+        return this.requestAccessToken(scopes, key);
+      });
+      this.pendingTokens[key].then(clear, clear);
+    }
+    return this.pendingTokens[key];
+  }
+
+  /**
+   * Remove the cached access token of the scopes.
+   * @param {array} scopes Optional: the resource server scopes
+   * @returns {void}
+   */
+  clearCachedAccessToken(scopes: ReadonlyArray<string> = []) {
+    this.storage.removeItem(this.getCacheKey(scopes));
+  }
+
+  /**
+   * Request an access token to the token endpoint and cache it.
+   * @param {array} scopes the resource server scopes
+   * @param {string} key the cache key
+   * @returns {Promise<CognitoAccessToken>} the access token, once cached
+   */
+  private requestAccessToken(scopes: ReadonlyArray<string>, key: string): Promise<CognitoAccessToken> {
+    const params: { [key: string]: any } = { grant_type: CognitoConstants.CLIENTCREDENTIALS };
+    if (scopes.length > 0) {
+      params[CognitoConstants.SCOPE] = scopes.join(CognitoConstants.SPACE);
+    }
+    const { headers, body } = authenticateClient({
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      clientAuthMethod: this.clientAuthMethod,
+    }, CognitoConstants.HEADER, params);
+    return sendHttpRequest(this.httpClient, {
+      method: CognitoConstants.POST,
+      url: getDomainUrl(this.appWebDomain, CognitoConstants.DOMAIN_PATH_TOKEN),
+      headers,
+      body: encodeFormBody(body),
+    }, this.httpTimeout).then(data => {
+      const response = JSON.parse(data);
+      const accessToken = new CognitoAccessToken(response[CognitoConstants.ACCESSTOKEN]);
+      const expiresAt = typeof response[CognitoConstants.EXPIRESIN] === 'number' ?
+        Math.floor(Date.now() / 1000) + response[CognitoConstants.EXPIRESIN] : accessToken.getExpiration();
+      const cached: CachedAccessToken = { accessToken: accessToken.getJwtToken(), expiresAt };
+      // the token is returned even if it cannot be cached
+      return Promise.resolve().then(() => this.storage.setItem(key, JSON.stringify(cached)))
+        .catch(() => undefined).then(() => accessToken);
+    });
+  }
+
+  /**
+   * @param {string} key the cache key
+   * @returns {Promise<object>} the cached access token and its expiration, if any
+   */
+  private getCachedAccessToken(key: string): Promise<CachedAccessToken> {
+    return Promise.resolve(this.storage.getItem(key)).then(value => {
+      if (!value) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(value);
+      } catch (e) {
+        return undefined;
+      }
+    });
+  }
+
+  /**
+   * @param {array} scopes the resource server scopes
+   * @returns {string} the cache key, independent of the order of the scopes
+   */
+  private getCacheKey(scopes: ReadonlyArray<string>): string {
+    const scopeSet = Array.from(new Set(scopes)).sort().join(CognitoConstants.SPACE);
+    return `CognitoClientCredentials.${this.clientId}.${scopeSet}`;
+  }
+}
@@ -4,23 +4,68 @@ public static readonly DOMAIN_SCHEME= 'https';
 public static readonly DOMAIN_PATH_SIGNIN= 'oauth2/authorize';
 public static readonly DOMAIN_PATH_TOKEN= 'oauth2/token';
 public static readonly DOMAIN_PATH_SIGNOUT= 'logout';
+public static readonly DOMAIN_PATH_REVOKE= 'oauth2/revoke';
+public static readonly DOMAIN_PATH_USERINFO= 'oauth2/userInfo';
+public static readonly DOMAIN_PATH_JWKS= '.well-known/jwks.json';
+public static readonly DOMAIN_PATH_OPENIDCONFIGURATION= '.well-known/openid-configuration';
+public static readonly USERPOOL_DOMAIN_PREFIX= 'cognito-idp.';
+public static readonly USERPOOL_DOMAIN_SUFFIX= '.amazonaws.com';
 public static readonly DOMAIN_QUERY_PARAM_REDIRECT_URI= 'redirect_uri';
 public static readonly DOMAIN_QUERY_PARAM_SIGNOUT_URI= 'logout_uri';
 public static readonly DOMAIN_QUERY_PARAM_RESPONSE_TYPE= 'response_type';
 public static readonly DOMAIN_QUERY_PARAM_IDENTITY_PROVIDER= 'identity_provider';
 public static readonly DOMAIN_QUERY_PARAM_USERCONTEXTDATA= 'userContextData';
+public static readonly DOMAIN_QUERY_PARAM_CODE_CHALLENGE= 'code_challenge';
+public static readonly DOMAIN_QUERY_PARAM_CODE_CHALLENGE_METHOD= 'code_challenge_method';
 public static readonly CLIENT_ID= 'client_id';
 public static readonly STATE= 'state';
+public static readonly NONCE= 'nonce';
 public static readonly SCOPE= 'scope';
 public static readonly TOKEN= 'token';
 public static readonly CODE= 'code';
 public static readonly POST= 'POST';
+public static readonly GET= 'GET';
 public static readonly PARAMETERERROR= 'The parameters= App client Id; App web domain' +
                                         '; the redirect URL when you are signed in and the ' +
                                         'redirect URL when you are signed out are required.';
 public static readonly SCOPETYPEERROR= 'Scopes have to be array type. ';
 public static readonly PARSETYPEERROR= 'Parse response error ';
 public static readonly REFRESHTYPEERROR= 'Refresh error: login again ';
+public static readonly RANDOMERROR= 'No secure random number generator is available (crypto.getRandomValues).';
+public static readonly NONCEMISSINGERROR= 'The Id token does not contain the nonce claim.';
+public static readonly NONCEMISMATCHERROR= 'The nonce of the Id token does not match the nonce of the request.';
+public static readonly STATEMISMATCHERROR= 'The state of the response does not match the state of the request.';
+public static readonly JWKSPARAMETERERROR= 'Token signature verification requires the UserPoolId, the Jwks or the Discovery.';
+public static readonly TOKENSIGNATUREERROR= 'Token signature verification failed.';
+public static readonly SIGNATUREUNSUPPORTEDERROR= 'Neither WebCrypto nor Node.js crypto is available to verify the token signature.';
+public static readonly BASE64URLERROR= 'Invalid base64url string.';
+public static readonly HTTPTIMEOUTERROR= 'The request timed out.';
+public static readonly HTTPSTATUSERROR= 'The request failed with the HTTP status ';
+public static readonly HTTPUNSUPPORTEDERROR= 'CORS requests are not supported.';
+public static readonly HTTPCLIENTERROR= 'No http client is available; pass the HttpClient option, ' +
+                                        'e.g. the NodeHttpClient of the node entry point.';
+public static readonly CLIENTSECRETBROWSERERROR= 'The client secret cannot be kept secret in a browser; ' +
+                                   'set AllowClientSecretInBrowser to use it anyway.';
+public static readonly CLIENTAUTHMETHODERROR= 'ClientAuthMethod has to be client_secret_basic or client_secret_post.';
+public static readonly CLIENTCREDENTIALSPARAMETERERROR= 'The client id, the client secret and the app web domain are required.';
+public static readonly USERNOTCACHEDERROR= 'The user has no cached session.';
+public static readonly USERINFOSESSIONERROR= 'A signed in session is required to get the user info.';
+public static readonly DISCOVERYERROR= 'The OpenID configuration has no authorization_endpoint or token_endpoint.';
+public static readonly DISCOVERYPARAMETERERROR= 'Discovery from the user pool issuer requires the UserPoolId.';
+public static readonly ASYNCSTORAGEERROR= 'The storage is asynchronous; use CognitoAuth.create() to load it.';
+public static readonly INDEXEDDBUNSUPPORTEDERROR= 'IndexedDB is not available.';
+public static readonly POPUPBLOCKEDERROR= 'The sign-in popup was blocked.';
+public static readonly POPUPCLOSEDERROR= 'The sign-in popup was closed.';
+public static readonly POPUPTIMEOUTERROR= 'The sign-in popup timed out.';
+public static readonly INTERACTIONREQUIREDERROR= 'The session cannot be renewed silently, the user has to sign in again.';
+public static readonly REFRESHSIGNEDOUTERROR= 'The user signed out in another tab.';
+public static readonly LINKINGERROR= 'Linking is not available; pass the Linking option outside React Native.';
+public static readonly SIGNINCANCELLEDERROR= 'The sign-in was cancelled.';
+public static readonly RETURNPATHERROR= 'The return path has to be a path of the app, e.g. /orders?page=2.';
+public static readonly ENCRYPTEDVALUEERROR= 'The encrypted value is malformed.';
+public static readonly ENCRYPTIONUNSUPPORTEDERROR= 'SubtleCrypto is not available to encrypt the storage.';
+public static readonly PKCEERROR= 'SubtleCrypto is not available to create the S256 code challenge; ' +
+                                   'set AllowPlainCodeChallenge to fall back to the plain method.';
 public static readonly QUESTIONMARK= '?';
 public static readonly POUNDSIGN= '#';
 public static readonly COLONDOUBLESLASH= '://';
@@ -34,15 +79,72 @@ public static readonly AUTHORIZATIONCODE= 'authorization_code';
 public static readonly IDTOKEN= 'id_token';
 public static readonly ACCESSTOKEN= 'access_token';
 public static readonly REFRESHTOKEN= 'refresh_token';
+public static readonly CLIENTSECRET= 'client_secret';
+public static readonly CLIENTCREDENTIALS= 'client_credentials';
+public static readonly EXPIRESIN= 'expires_in';
+public static readonly CLIENTSECRETBASIC= 'client_secret_basic';
+public static readonly CLIENTSECRETPOST= 'client_secret_post';
+public static readonly AUTHORIZATION= 'Authorization';
+public static readonly BASIC= 'Basic ';
+public static readonly BEARER= 'Bearer ';
+public static readonly CODEVERIFIER= 'code_verifier';
+public static readonly CODEVERIFIERLENGTH= 64;
+public static readonly CODECHALLENGEMETHODS256= 'S256';
+public static readonly CODECHALLENGEMETHODPLAIN= 'plain';
+public static readonly SHA256= 'SHA-256';
+public static readonly RS256= 'RS256';
+public static readonly JWKSREFETCHMILLISECONDS= 60000;
+public static readonly UNDERSCORE= '_';
 public static readonly ERROR= 'error';
 public static readonly ERROR_DESCRIPTION= 'error_description';
 public static readonly STRINGTYPE= 'string';
 public static readonly STATELENGTH= 32;
+public static readonly NONCELENGTH= 32;
+public static readonly CLOCKSKEW= 60;
+public static readonly AUTOREFRESHSECONDS= 300;
+public static readonly AUTOREFRESHMINMILLISECONDS= 30000;
+public static readonly CLIENTCREDENTIALSREFRESHSECONDS= 60;
 public static readonly STATEORIGINSTRING= '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
 public static readonly WITHCREDENTIALS= 'withCredentials';
+public static readonly INDEXEDDBDATABASE= 'amazon-cognito-auth';
+public static readonly INDEXEDDBSTORE= 'storage';
+public static readonly ENCRYPTIONKEYNAME= 'EncryptedStorage.key';
+public static readonly AESGCM= 'AES-GCM';
+public static readonly AESGCMIVLENGTH= 12;
+public static readonly AESKEYLENGTH= 256;
+public static readonly TABSYNCMESSAGE= 'storage';
+public static readonly POPUPNAME= 'CognitoAuthSignIn';
+public static readonly POPUPMESSAGETYPE= 'CognitoAuthCallback';
+public static readonly POPUPFEATURES= 'width=500,height=700,menubar=no,toolbar=no';
+public static readonly POPUPBLOCKED= 'popup_blocked';
+public static readonly POPUPCLOSED= 'popup_closed';
+public static readonly POPUPTIMEOUT= 'popup_timeout';
+public static readonly POPUPTIMEOUTMILLISECONDS= 300000;
+public static readonly POPUPPOLLMILLISECONDS= 500;
+public static readonly SILENTRENEWNAME= 'CognitoAuthSilentRenew';
+public static readonly SILENTRENEWTIMEOUTMILLISECONDS= 10000;
+public static readonly PROMPT= 'prompt';
+public static readonly PROMPTNONE= 'none';
+public static readonly INTERACTIONREQUIRED= 'interaction_required';
+public static readonly INTERACTIONREQUIREDCODES= ['interaction_required', 'login_required', 'consent_required',
+                                   'account_selection_required'];
+public static readonly SIGNINCANCELLED= 'sign_in_cancelled';
+public static readonly SCOPEWILDCARD= '*';
+public static readonly CUSTOMATTRIBUTEPREFIX= 'custom:';
+public static readonly AUTHSESSIONSUCCESS= 'success';
+public static readonly APPSTATEACTIVE= 'active';
+public static readonly SIGNINRETURNMILLISECONDS= 2000;
+public static readonly TABLOCKLEASEMILLISECONDS= 30000;
+public static readonly TABLOCKRETRYMILLISECONDS= 100;
+public static readonly TABLOCKRENEWMILLISECONDS= 10000;
 public static readonly UNDEFINED= 'undefined';
 public static readonly SELF= '_self';
 public static readonly HOSTNAMEREGEX= /:\/\/([0-9]?\.)?(.[^/:]+)/i;
+public static readonly ORIGINREGEX= /^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i;
+public static readonly USERPOOLISSUERREGEX= /^https:\/\/cognito-idp\.[^./]+\.amazonaws\.com\/[^/]+$/;
+public static readonly CALLBACKPARAMETERREGEX= /[?#&](code|access_token|id_token|error)=/;
+public static readonly CALLBACKPARAMETERS= ['code', 'state', 'access_token', 'id_token', 'token_type', 'expires_in',
+                                   'error', 'error_description', 'error_uri'];
 public static readonly QUERYPARAMETERREGEX1= /#(.+)/;
 public static readonly QUERYPARAMETERREGEX2= /=(.+)/;
 public static readonly HEADER= { 'Content-Type': 'application/x-www-form-urlencoded' };
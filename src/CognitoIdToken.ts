@@ -0,0 +1,105 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoToken from './CognitoToken';
+
+/**
+ * A federated identity of the user (identities member), when signed in with an identity provider.
+ */
+export interface CognitoIdentity {
+  userId: string;
+  providerName: string;
+  providerType: string;
+  issuer: string;
+  primary: string;
+  dateCreated: string;
+}
+
+/**
+ * The claims of a Cognito Id token; the custom attributes are typed by the application claims.
+ */
+export interface CognitoIdTokenPayload {
+  sub: string;
+  aud: string;
+  iss: string;
+  exp: number;
+  iat: number;
+  auth_time: number;
+  token_use: 'id';
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  phone_number?: string;
+  phone_number_verified?: boolean | string;
+  'cognito:username': string;
+  'cognito:groups'?: string[];
+  identities?: CognitoIdentity[];
+}
+
+/** @class */
+export default class CognitoIdToken<Claims extends object = {}> extends CognitoToken {
+  /**
+   * Constructs a new CognitoIdToken object
+   * @param {string=} IdToken The JWT Id token.
+   */
+  constructor(IdToken: string = '') {
+    super(IdToken);
+  }
+
+  /**
+   * @returns {object} the token's claims, typed with the application claims.
+   */
+  getClaims(): CognitoIdTokenPayload & Claims {
+    return (this.jwtToken ? this.decodePayload() : {}) as CognitoIdTokenPayload & Claims;
+  }
+
+  /**
+   * @param {string} name the claim name.
+   * @returns {any} the claim from payload, undefined without a token.
+   */
+  getClaim<K extends keyof (CognitoIdTokenPayload & Claims)>(name: K): (CognitoIdTokenPayload & Claims)[K] {
+    return this.getClaims()[name];
+  }
+
+  /**
+   * @returns {string} the username (cognito:username member).
+   */
+  getUsername(): string {
+    return this.getClaim('cognito:username');
+  }
+
+  /**
+   * @returns {string} the email of the user (email member).
+   */
+  getEmail(): string {
+    return this.getClaim('email');
+  }
+
+  /**
+   * @returns {boolean} whether the email is verified (email_verified member), a string for some federated users.
+   */
+  isEmailVerified(): boolean {
+    const verified = this.getClaim('email_verified');
+    return verified === true || verified === 'true';
+  }
+
+  /**
+   * @returns {array} the federated identities of the user (identities member), empty if none.
+   */
+  getIdentities(): CognitoIdentity[] {
+    return this.getClaim('identities') || [];
+  }
+}
@@ -0,0 +1,157 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import CognitoAuthError from './CognitoAuthError';
+import ConfigurationError from './ConfigurationError';
+import TokenValidationError from './TokenValidationError';
+import { base64UrlDecode, bytesToString, stringToBytes } from './Base64UrlHelper';
+import { verifyRS256 } from './CryptoHelper';
+
+export interface CognitoJwk {
+  kid: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  n: string;
+  e: string;
+}
+
+export interface CognitoJwks {
+  keys: CognitoJwk[];
+}
+
+export interface CognitoJwtVerifierOptions {
+  /**
+   * Optional: The JWKS url of the user pool, used to fetch the keys.
+   */
+  JwksUri?: string;
+
+  /**
+   * Optional: The JWKS of the user pool, to verify the tokens offline.
+   */
+  Jwks?: CognitoJwks;
+
+  /**
+   * Required without Jwks: Function to fetch the JWKS, called with JwksUri, returning the response text.
+   */
+  FetchJwks?: (url: string) => Promise<string>;
+}
+
+/** @class */
+export default class CognitoJwtVerifier {
+  jwksUri: string;
+  jwks: CognitoJwks;
+  fetchJwks: (url: string) => Promise<string>;
+  private pendingJwks: Promise<CognitoJwks>;
+  private jwksFetchedAt: number;
+
+  /**
+   * Constructs a new CognitoJwtVerifier object
+   * @param {object} data Creation options
+   * @param {string} data.JwksUri Optional: The JWKS url of the user pool.
+   * @param {object} data.Jwks Optional: The JWKS of the user pool, to verify the tokens offline.
+   * @param {function} data.FetchJwks Optional: Function to fetch the JWKS url.
+   */
+  constructor({ JwksUri, Jwks, FetchJwks }: CognitoJwtVerifierOptions) {
+    if (!Jwks && !FetchJwks) {
+      throw new ConfigurationError(CognitoConstants.JWKSPARAMETERERROR);
+    }
+    this.jwksUri = JwksUri;
+    this.jwks = Jwks;
+    this.fetchJwks = FetchJwks;
+  }
+
+  /**
+   * Verifies the RS256 signature of a JWT against the key identified by its kid header.
+   * @param {string} jwtToken the JWT
+   * @returns {Promise<void>} rejected if the signature cannot be verified
+   */
+  verify(jwtToken: string): Promise<void> {
+    return Promise.resolve().then(() => {
+      const parts = String(jwtToken).split('.');
+      if (parts.length !== 3) {
+        throw new TokenValidationError(CognitoConstants.TOKENSIGNATUREERROR);
+      }
+      const header = JSON.parse(bytesToString(base64UrlDecode(parts[0])));
+      // only RS256 is used by Cognito, this also rejects unsigned tokens
+      if (header.alg !== CognitoConstants.RS256 || !header.kid) {
+        throw new TokenValidationError(CognitoConstants.TOKENSIGNATUREERROR);
+      }
+      return this.getJwk(header.kid).then(jwk =>
+        verifyRS256(jwk, stringToBytes(`${parts[0]}.${parts[1]}`), base64UrlDecode(parts[2]))
+      );
+    }).then(valid => {
+      if (!valid) {
+        throw new TokenValidationError(CognitoConstants.TOKENSIGNATUREERROR);
+      }
+    }).catch(e => {
+      // e.g. a malformed token or a key that cannot be imported
+      throw e instanceof CognitoAuthError ? e : new TokenValidationError(CognitoConstants.TOKENSIGNATUREERROR);
+    });
+  }
+
+  /**
+   * Get the key with the given kid, fetching the JWKS again if the kid is unknown,
+   * which happens when the user pool keys have been rotated. The JWKS is not fetched again
+   * within JWKSREFETCHMILLISECONDS, so that tokens with random kids cannot flood the JWKS url.
+   * @param {string} kid the key id
+   * @returns {Promise<CognitoJwk>} the key
+   */
+  getJwk(kid: string): Promise<CognitoJwk> {
+    const jwk = this.findJwk(kid);
+    if (jwk) {
+      return Promise.resolve(jwk);
+    }
+    if (!this.fetchJwks || (!this.pendingJwks && this.jwksFetchedAt !== undefined &&
+      Date.now() - this.jwksFetchedAt < CognitoConstants.JWKSREFETCHMILLISECONDS)) {
+      return Promise.reject(new TokenValidationError(CognitoConstants.TOKENSIGNATUREERROR));
+    }
+    return this.loadJwks().then(() => {
+      const fetchedJwk = this.findJwk(kid);
+      if (!fetchedJwk) {
+        throw new TokenValidationError(CognitoConstants.TOKENSIGNATUREERROR);
+      }
+      return fetchedJwk;
+    });
+  }
+
+  /**
+   * Fetch and cache the JWKS, concurrent calls share the same request.
+   * @returns {Promise<CognitoJwks>} the JWKS
+   */
+  loadJwks(): Promise<CognitoJwks> {
+    if (!this.pendingJwks) {
+      this.jwksFetchedAt = Date.now();
+      this.pendingJwks = this.fetchJwks(this.jwksUri).then(data => {
+        this.pendingJwks = null;
+        this.jwks = JSON.parse(data);
+        return this.jwks;
+      }, e => {
+        this.pendingJwks = null;
+        throw e;
+      });
+    }
+    return this.pendingJwks;
+  }
+
+  private findJwk(kid: string): CognitoJwk {
+    if (!this.jwks || !Array.isArray(this.jwks.keys)) {
+      return undefined;
+    }
+    return this.jwks.keys.filter(key => key.kid === kid)[0];
+  }
+}
@@ -0,0 +1,336 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoAuth from './CognitoAuth';
+import CognitoAuthSession from './CognitoAuthSession';
+import CognitoAuthError from './CognitoAuthError';
+import ConfigurationError from './ConfigurationError';
+import CognitoConstants from './CognitoConstants';
+import { getAppState, getLinking } from './LinkingHelper';
+import { matchesRedirectUri } from './CallbackHelper';
+
+export type CognitoUrlListener = (event: { url: string }) => void;
+
+/**
+ * The Linking module of React Native, or an object with the same methods.
+ */
+export interface CognitoLinking {
+  openURL(url: string): Promise<any>;
+  getInitialURL(): Promise<string | null>;
+  addEventListener(type: 'url', listener: CognitoUrlListener): { remove(): void } | void;
+  removeEventListener?(type: 'url', listener: CognitoUrlListener): void;
+}
+
+/**
+ * The AppState module of React Native, or an object with the same methods.
+ */
+export interface CognitoAppState {
+  addEventListener(type: 'change', listener: (state: string) => void): { remove(): void } | void;
+  removeEventListener?(type: 'change', listener: (state: string) => void): void;
+}
+
+/**
+ * The result of an auth session, with the redirect url on success.
+ */
+export interface CognitoAuthSessionResult {
+  type: string;
+  url?: string;
+}
+
+/**
+ * Opens the url in an in-app browser until it redirects to the redirect uri,
+ * e.g. WebBrowser.openAuthSessionAsync of Expo or InAppBrowser.openAuth of react-native-inappbrowser.
+ */
+export type CognitoAuthSessionOpener = (url: string, redirectUri: string) => Promise<CognitoAuthSessionResult>;
+
+export interface CognitoNativeSignInOptions {
+  /**
+   * Optional: The Linking module, by default the one of React Native.
+   */
+  Linking?: CognitoLinking;
+
+  /**
+   * Optional: Opens the hosted UI in an in-app browser, instead of the system browser.
+   */
+  OpenAuthSession?: CognitoAuthSessionOpener;
+
+  /**
+   * Optional: The AppState module, by default the one of React Native. The sign-in in the system browser
+   * is cancelled, and the sign-out completed, when the app becomes active again without the redirect.
+   */
+  AppState?: CognitoAppState;
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (reason: any) => void;
+}
+
+const createDeferred = <T>(): Deferred<T> => {
+  const deferred = {} as Deferred<T>;
+  deferred.promise = new Promise<T>((resolve, reject) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  return deferred;
+};
+
+/** @class */
+export default class CognitoNativeSignIn {
+  auth: CognitoAuth;
+  linking: CognitoLinking;
+  openAuthSession: CognitoAuthSessionOpener;
+  appState: CognitoAppState;
+  private subscription: { remove(): void } | void;
+  private listening: boolean;
+  private lastCallback: { url: string, session: Promise<CognitoAuthSession> };
+  private pendingSignIn: Deferred<CognitoAuthSession>;
+  private pendingSignOut: Deferred<void>;
+
+  /**
+   * Constructs a new CognitoNativeSignIn object, completing the sign-in of a React Native app
+   * when the hosted UI redirects to the app with a deep link.
+   * @param {CognitoAuth} auth The CognitoAuth object.
+   * @param {object} data Creation options
+   * @param {object} data.Linking Optional: The Linking module, by default the one of React Native.
+   * @param {function} data.OpenAuthSession Optional: Opens the hosted UI in an in-app browser,
+   *        called with the url and the redirect uri and resolving { type: 'success', url } on redirect.
+   * @param {object} data.AppState Optional: The AppState module, by default the one of React Native.
+   */
+  constructor(auth: CognitoAuth, { Linking, OpenAuthSession, AppState }: CognitoNativeSignInOptions = {}) {
+    this.auth = auth;
+    this.linking = Linking || getLinking();
+    if (!this.linking) {
+      throw new ConfigurationError(CognitoConstants.LINKINGERROR);
+    }
+    this.openAuthSession = OpenAuthSession;
+    this.appState = AppState || getAppState();
+    this.listening = false;
+    this.lastCallback = null;
+    this.pendingSignIn = null;
+    this.pendingSignOut = null;
+    this.onUrl = this.onUrl.bind(this);
+  }
+
+  /**
+   * Listen to the deep links and complete the sign-in when the app was launched by the sign-in redirect.
+   * @returns {Promise<CognitoAuthSession>} the session when the app was launched by the sign-in redirect,
+   *          otherwise null
+   */
+  start(): Promise<CognitoAuthSession> {
+    this.listen();
+    return this.linking.getInitialURL().then(url =>
+      url && this.isSignInCallback(url) ? this.handleCallback(url) : null);
+  }
+
+  /**
+   * Stop listening to the deep links.
+   * @returns {void}
+   */
+  stop() {
+    if (!this.listening) {
+      return;
+    }
+    this.listening = false;
+    if (this.subscription && typeof this.subscription.remove === 'function') {
+      this.subscription.remove();
+    } else if (this.linking.removeEventListener) {
+      this.linking.removeEventListener('url', this.onUrl);
+    }
+    this.subscription = undefined;
+  }
+
+  /**
+   * Open the hosted UI, in the in-app browser if OpenAuthSession is set, otherwise in the system browser,
+   * and complete the sign-in when it redirects to the app. Concurrent calls share the same sign-in.
+   * @returns {Promise<CognitoAuthSession>} the session, rejected with a CognitoAuthError whose code is
+   *          'sign_in_cancelled' when the in-app browser is dismissed, when the app becomes active again
+   *          without the redirect, or by cancelSignIn()
+   */
+  signIn(): Promise<CognitoAuthSession> {
+    if (this.pendingSignIn) {
+      return this.pendingSignIn.promise;
+    }
+    const pending = createDeferred<CognitoAuthSession>();
+    this.pendingSignIn = pending;
+    const clear = () => {
+      if (this.pendingSignIn === pending) {
+        this.pendingSignIn = null;
+      }
+    };
+    pending.promise.then(clear, clear);
+    this.listen();
+    this.auth.prepareFQDNSignIn().then(URL => {
+      if (!this.openAuthSession) {
+        // the callback is received by the url listener
+        return this.linking.openURL(URL).then(() => this.cancelOnReturn(pending));
+      }
+      return this.openAuthSession(URL, this.auth.getRedirectUriSignIn()).then(result => {
+        if (result && result.type === CognitoConstants.AUTHSESSIONSUCCESS && result.url) {
+          return this.handleCallback(result.url).then(pending.resolve);
+        }
+        throw this.createCancelledError(result);
+      });
+    }).catch(pending.reject);
+    return pending.promise;
+  }
+
+  /**
+   * Cancel the pending sign-in, e.g. when the user closed the system browser.
+   * @returns {void}
+   */
+  cancelSignIn() {
+    if (this.pendingSignIn) {
+      this.pendingSignIn.reject(this.createCancelledError());
+    }
+  }
+
+  /**
+   * Revoke the refresh token, clear the cached tokens and sign out from the hosted UI,
+   * in the in-app browser if OpenAuthSession is set, otherwise in the system browser.
+   * @returns {Promise<void>} resolved when the hosted UI redirects to the app, or when the app becomes
+   *          active again without the redirect
+   */
+  signOut(): Promise<void> {
+    const URL = this.auth.getFQDNSignOut();
+    return this.auth.signOut('revoke').then(() => {
+      if (this.openAuthSession) {
+        // the local session is cleared even if the in-app browser is dismissed
+        return this.openAuthSession(URL, this.auth.redirectUriSignOut).then(() => undefined);
+      }
+      if (!this.pendingSignOut) {
+        const pending = createDeferred<void>();
+        const clear = () => {
+          this.pendingSignOut = null;
+        };
+        pending.promise.then(clear, clear);
+        this.pendingSignOut = pending;
+        this.listen();
+        // the local session is already cleared when the app becomes active again without the redirect
+        this.linking.openURL(URL).then(() => this.onReturn(pending, () => pending.resolve(undefined)))
+          .catch(pending.reject);
+      }
+      return this.pendingSignOut.promise;
+    });
+  }
+
+  /**
+   * @param {string} url the deep link
+   * @returns {boolean} whether the url is the sign-in redirect uri, with the callback parameters
+   */
+  isSignInCallback(url: string): boolean {
+    return this.auth.isCallbackUrl(url);
+  }
+
+  /**
+   * @param {string} url the deep link
+   * @returns {boolean} whether the url is the sign-out redirect uri
+   */
+  isSignOutCallback(url: string): boolean {
+    return matchesRedirectUri(url, this.auth.redirectUriSignOut) && !this.isSignInCallback(url);
+  }
+
+  private listen() {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+    this.subscription = this.linking.addEventListener('url', this.onUrl);
+  }
+
+  /**
+   * Cancel the sign-in in the system browser when the app becomes active again without the redirect.
+   * @param {object} pending the pending sign-in
+   * @returns {void}
+   */
+  private cancelOnReturn(pending: Deferred<CognitoAuthSession>) {
+    if (this.pendingSignIn !== pending) {
+      return;
+    }
+    const lastCallback = this.lastCallback;
+    this.onReturn(pending, () => {
+      if (this.pendingSignIn === pending && this.lastCallback === lastCallback) {
+        pending.reject(this.createCancelledError());
+      }
+    });
+  }
+
+  /**
+   * Call onReturn when the app becomes active again while the promise is pending,
+   * after a delay as the redirect may be delivered just after.
+   * @param {object} pending the pending sign-in or sign-out
+   * @param {function} onReturn settles the pending promise
+   * @returns {void}
+   */
+  private onReturn(pending: Deferred<any>, onReturn: () => void) {
+    if (!this.appState) {
+      return;
+    }
+    let timer: any;
+    const onChange = (state: string) => {
+      if (state !== CognitoConstants.APPSTATEACTIVE || timer) {
+        return;
+      }
+      timer = setTimeout(onReturn, CognitoConstants.SIGNINRETURNMILLISECONDS);
+    };
+    const subscription = this.appState.addEventListener('change', onChange);
+    const remove = () => {
+      clearTimeout(timer);
+      if (subscription && typeof subscription.remove === 'function') {
+        subscription.remove();
+      } else if (this.appState.removeEventListener) {
+        this.appState.removeEventListener('change', onChange);
+      }
+    };
+    pending.promise.then(remove, remove);
+  }
+
+  private createCancelledError(response?: CognitoAuthSessionResult): CognitoAuthError {
+    return new CognitoAuthError(CognitoConstants.SIGNINCANCELLEDERROR, {
+      code: CognitoConstants.SIGNINCANCELLED,
+      response,
+    });
+  }
+
+  private onUrl({ url }: { url: string }) {
+    if (this.isSignInCallback(url)) {
+      const pending = this.pendingSignIn;
+      const callback = this.handleCallback(url);
+      if (pending) {
+        callback.then(pending.resolve, pending.reject);
+      } else {
+        // the error is emitted as a callbackError event
+        callback.catch(() => undefined);
+      }
+    } else if (this.isSignOutCallback(url) && this.pendingSignOut) {
+      this.pendingSignOut.resolve(undefined);
+    }
+  }
+
+  /**
+   * Parse the callback once, as both the in-app browser and the url listener may receive it,
+   * one after the other: only the last callback is kept.
+   * @param {string} url the sign-in callback
+   * @returns {Promise<CognitoAuthSession>} the session
+   */
+  private handleCallback(url: string): Promise<CognitoAuthSession> {
+    if (!this.lastCallback || this.lastCallback.url !== url) {
+      this.lastCallback = { url, session: this.auth.parseCognitoWebResponse(url) };
+    }
+    return this.lastCallback.session;
+  }
+}
@@ -0,0 +1,59 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+
+/**
+ * The OpenID Connect discovery document (OpenID Connect Discovery 1.0 section 3),
+ * only the members used by CognitoAuth are typed.
+ */
+export interface CognitoOpenIdConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  revocation_endpoint?: string;
+  end_session_endpoint?: string;
+  jwks_uri?: string;
+  [member: string]: any;
+}
+
+/**
+ * Create the url of the discovery document of an issuer, unless it is already the document url.
+ * @param {string} issuerOrUrl the issuer, e.g. the user pool issuer, or the discovery document url
+ * @returns {string} the discovery document url
+ */
+export const getOpenIdConfigurationUrl = (issuerOrUrl: string): string => {
+  if (issuerOrUrl.indexOf(CognitoConstants.DOMAIN_PATH_OPENIDCONFIGURATION) >= 0) {
+    return issuerOrUrl;
+  }
+  return issuerOrUrl.replace(/\/+$/, '').concat(CognitoConstants.SLASH,
+    CognitoConstants.DOMAIN_PATH_OPENIDCONFIGURATION);
+};
+
+/**
+ * Parse and check a discovery document.
+ * @param {string} data the document
+ * @returns {CognitoOpenIdConfiguration} the parsed document
+ */
+export const parseOpenIdConfiguration = (data: string): CognitoOpenIdConfiguration => {
+  const configuration = JSON.parse(data);
+  if (!configuration || !configuration.authorization_endpoint || !configuration.token_endpoint) {
+    throw new ConfigurationError(CognitoConstants.DISCOVERYERROR);
+  }
+  return configuration;
+};
@@ -0,0 +1,163 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+
+// setTimeout fires immediately with delays above 2^31 - 1 ms
+const MAXTIMEOUT = 2147483647;
+
+export interface CognitoRefreshSchedulerOptions {
+  /**
+   * Required: Number of seconds before the expiration to refresh the tokens.
+   */
+  RefreshBeforeSeconds: number;
+
+  /**
+   * Required: Function returning the expiration (exp claim, in seconds) of the current access token.
+   */
+  GetExpiration: () => number;
+
+  /**
+   * Required: Function refreshing the tokens.
+   */
+  Refresh: () => Promise<any>;
+}
+
+/** @class */
+export default class CognitoRefreshScheduler {
+  refreshBeforeSeconds: number;
+  getExpiration: () => number;
+  refresh: () => Promise<any>;
+  running: boolean;
+  private timer: any;
+
+  /**
+   * Constructs a new CognitoRefreshScheduler object
+   * @param {object} data Creation options
+   * @param {int} data.RefreshBeforeSeconds Required: Number of seconds before the expiration to refresh the tokens.
+   * @param {function} data.GetExpiration Required: Function returning the expiration of the current access token.
+   * @param {function} data.Refresh Required: Function refreshing the tokens.
+   */
+  constructor({ RefreshBeforeSeconds, GetExpiration, Refresh }: CognitoRefreshSchedulerOptions) {
+    this.refreshBeforeSeconds = RefreshBeforeSeconds;
+    this.getExpiration = GetExpiration;
+    this.refresh = Refresh;
+    this.running = false;
+    this.onVisibilityOrNetworkChange = this.onVisibilityOrNetworkChange.bind(this);
+  }
+
+  /**
+   * Start scheduling the refreshes, paused while the page is hidden or offline.
+   * @returns {void}
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    if (typeof document !== CognitoConstants.UNDEFINED && document.addEventListener) {
+      document.addEventListener('visibilitychange', this.onVisibilityOrNetworkChange);
+    }
+    if (typeof window !== CognitoConstants.UNDEFINED && window.addEventListener) {
+      window.addEventListener('online', this.onVisibilityOrNetworkChange);
+      window.addEventListener('offline', this.onVisibilityOrNetworkChange);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Stop scheduling the refreshes.
+   * @returns {void}
+   */
+  stop() {
+    this.running = false;
+    this.clearTimer();
+    if (typeof document !== CognitoConstants.UNDEFINED && document.removeEventListener) {
+      document.removeEventListener('visibilitychange', this.onVisibilityOrNetworkChange);
+    }
+    if (typeof window !== CognitoConstants.UNDEFINED && window.removeEventListener) {
+      window.removeEventListener('online', this.onVisibilityOrNetworkChange);
+      window.removeEventListener('offline', this.onVisibilityOrNetworkChange);
+    }
+  }
+
+  /**
+   * Cancel the scheduled refresh, keep running: the next schedule() arms it again.
+   * @returns {void}
+   */
+  cancel() {
+    this.clearTimer();
+  }
+
+  /**
+   * Schedule the next refresh from the current access token expiration,
+   * replacing the scheduled one. Does nothing when stopped or paused.
+   * @returns {void}
+   */
+  schedule() {
+    this.clearTimer();
+    if (!this.running || this.isPaused()) {
+      return;
+    }
+    const expiration = this.getExpiration();
+    if (typeof expiration !== 'number') {
+      return;
+    }
+    const refreshAt = (expiration - this.refreshBeforeSeconds) * 1000;
+    let delay = refreshAt - Date.now();
+    if (delay <= 0) {
+      // the token lifetime is not longer than RefreshBeforeSeconds: refreshed halfway, not in a loop
+      delay = Math.max((expiration * 1000 - Date.now()) / 2, CognitoConstants.AUTOREFRESHMINMILLISECONDS);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (delay > MAXTIMEOUT) {
+        this.schedule();
+        return;
+      }
+      // a refresh that did not renew the token is not retried, until the next schedule
+      this.refresh().then(() => {
+        if (this.getExpiration() !== expiration) {
+          this.schedule();
+        }
+      }, () => undefined);
+    }, Math.min(delay, MAXTIMEOUT));
+    // the timer must not keep a Node.js process alive
+    if (this.timer && typeof this.timer.unref === 'function') {
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * @returns {boolean} whether the page is hidden or offline
+   */
+  isPaused(): boolean {
+    const hidden = typeof document !== CognitoConstants.UNDEFINED && document.visibilityState === 'hidden';
+    const offline = typeof navigator !== CognitoConstants.UNDEFINED && navigator.onLine === false;
+    return hidden || offline;
+  }
+
+  private onVisibilityOrNetworkChange() {
+    this.schedule();
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
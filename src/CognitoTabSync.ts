@@ -0,0 +1,120 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+
+export interface CognitoTabSyncOptions {
+  /**
+   * Required: Name of the BroadcastChannel, and prefix of the storage keys to watch.
+   */
+  Name: string;
+
+  /**
+   * Required: Function called once the storage has been changed by another tab.
+   */
+  OnChange: () => void;
+}
+
+/** @class */
+export default class CognitoTabSync {
+  name: string;
+  onChange: () => void;
+  running: boolean;
+  private channel: any;
+  private pendingChange: any;
+
+  /**
+   * Constructs a new CognitoTabSync object
+   * @param {object} data Creation options
+   * @param {string} data.Name Required: Name of the BroadcastChannel, and prefix of the storage keys to watch.
+   * @param {function} data.OnChange Required: Function called once the storage has been changed by another tab.
+   */
+  constructor({ Name, OnChange }: CognitoTabSyncOptions) {
+    this.name = Name;
+    this.onChange = OnChange;
+    this.running = false;
+    this.onStorage = this.onStorage.bind(this);
+  }
+
+  /**
+   * Start listening to the other tabs, with a BroadcastChannel if available, or else with the
+   * storage events, only fired for localStorage.
+   * @returns {void}
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    if (typeof BroadcastChannel !== CognitoConstants.UNDEFINED) {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.onmessage = () => this.scheduleChange();
+    } else if (typeof window !== CognitoConstants.UNDEFINED && window.addEventListener) {
+      window.addEventListener('storage', this.onStorage);
+    }
+  }
+
+  /**
+   * Stop listening to the other tabs.
+   * @returns {void}
+   */
+  stop() {
+    this.running = false;
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    if (typeof window !== CognitoConstants.UNDEFINED && window.removeEventListener) {
+      window.removeEventListener('storage', this.onStorage);
+    }
+    clearTimeout(this.pendingChange);
+    this.pendingChange = null;
+  }
+
+  /**
+   * Notify the other tabs that the storage has been changed, they are notified
+   * by the storage events themselves without a BroadcastChannel.
+   * @returns {void}
+   */
+  notify() {
+    if (this.channel) {
+      this.channel.postMessage(CognitoConstants.TABSYNCMESSAGE);
+    }
+  }
+
+  private onStorage(event: StorageEvent) {
+    // a null key when the storage was cleared
+    if (event.key === null || event.key.indexOf(this.name) === 0) {
+      this.scheduleChange();
+    }
+  }
+
+  /**
+   * Several items change at once, e.g. the tokens and the last user: the changes are handled once.
+   * @returns {void}
+   */
+  private scheduleChange() {
+    if (this.pendingChange) {
+      return;
+    }
+    this.pendingChange = setTimeout(() => {
+      this.pendingChange = null;
+      if (this.running) {
+        this.onChange();
+      }
+    });
+  }
+}
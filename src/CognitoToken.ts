@@ -15,6 +15,7 @@
  * and limitations under the License.
  */
 import { decode } from './DecodingHelper';
+import CognitoConstants from './CognitoConstants';
 
 export interface CognitoTokenInterface {
     jwtToken: string;
@@ -73,6 +74,69 @@ export interface CognitoTokenInterface {
       return (this.decodePayload() as any).username;
     }
   
+    /**
+     * @returns {string} the subject (sub member), the unique identifier of the user.
+     */
+    getSub(): string {
+      return this.getPayloadClaim('sub');
+    }
+  
+    /**
+     * @returns {array} the groups of the user (cognito:groups member), empty if none.
+     */
+    getGroups(): string[] {
+      return this.getPayloadClaim('cognito:groups') || [];
+    }
+  
+    /**
+     * @returns {int} the time when the user authenticated (auth_time member), in seconds.
+     */
+    getAuthTime(): number {
+      return this.getPayloadClaim('auth_time');
+    }
+  
+    /**
+     * @returns {string} the token use (token_use member), 'id' or 'access'.
+     */
+    getTokenUse(): string {
+      return this.getPayloadClaim('token_use');
+    }
+  
+    /**
+     * @returns {object} the custom attributes (custom:* members), without their custom: prefix.
+     */
+    getCustomAttributes(): { [name: string]: string } {
+      const payload = this.jwtToken ? this.decodePayload() : {};
+      const attributes = {};
+      Object.keys(payload).forEach(claim => {
+        if (claim.indexOf(CognitoConstants.CUSTOMATTRIBUTEPREFIX) === 0) {
+          attributes[claim.substring(CognitoConstants.CUSTOMATTRIBUTEPREFIX.length)] = payload[claim];
+        }
+      });
+      return attributes;
+    }
+  
+    /**
+     * @param {string} name the attribute name, with or without the custom: prefix.
+     * @returns {string} the custom attribute.
+     */
+    getCustomAttribute(name: string): string {
+      const prefixed = name.indexOf(CognitoConstants.CUSTOMATTRIBUTEPREFIX) === 0 ? name :
+        CognitoConstants.CUSTOMATTRIBUTEPREFIX + name;
+      return this.getPayloadClaim(prefixed);
+    }
+  
+    /**
+     * @param {string} name the claim name.
+     * @returns {any} the claim from payload, undefined without a token.
+     */
+    protected getPayloadClaim(name: string): any {
+      if (!this.jwtToken) {
+        return undefined;
+      }
+      return this.decodePayload()[name];
+    }
+  
     /**
      * @returns {object} the token's payload.
      */
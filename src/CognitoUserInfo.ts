@@ -0,0 +1,86 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+
+const BOOLEANCLAIMS = ['email_verified', 'phone_number_verified'];
+
+export interface CognitoUserInfoAddress {
+  formatted?: string;
+  street_address?: string;
+  locality?: string;
+  region?: string;
+  postal_code?: string;
+  country?: string;
+}
+
+/**
+ * The profile returned by the userInfo endpoint: the standard OIDC claims,
+ * and the custom attributes without their custom: prefix.
+ */
+export interface CognitoUserInfo {
+  sub: string;
+  username?: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  middle_name?: string;
+  nickname?: string;
+  preferred_username?: string;
+  profile?: string;
+  picture?: string;
+  website?: string;
+  email?: string;
+  email_verified?: boolean;
+  gender?: string;
+  birthdate?: string;
+  zoneinfo?: string;
+  locale?: string;
+  phone_number?: string;
+  phone_number_verified?: boolean;
+  address?: CognitoUserInfoAddress;
+  updated_at?: number;
+  customAttributes: { [name: string]: string };
+}
+
+/**
+ * Build the typed profile from the userInfo endpoint response, where Cognito returns
+ * the verified flags as 'true'/'false' strings.
+ * @param {object} json the parsed response
+ * @returns {CognitoUserInfo} the user info
+ */
+export const parseUserInfo = (json: { [claim: string]: any }): CognitoUserInfo => {
+  const userInfo: CognitoUserInfo = { sub: json.sub, customAttributes: {} };
+  Object.keys(json).forEach(claim => {
+    const value = json[claim];
+    if (claim.indexOf(CognitoConstants.CUSTOMATTRIBUTEPREFIX) === 0) {
+      userInfo.customAttributes[claim.substring(CognitoConstants.CUSTOMATTRIBUTEPREFIX.length)] = value;
+    } else if (BOOLEANCLAIMS.indexOf(claim) >= 0) {
+      userInfo[claim] = value === true || value === 'true';
+    } else if (claim === 'updated_at' && typeof value === 'string') {
+      userInfo.updated_at = Number(value);
+    } else if (claim === 'address' && typeof value === 'string') {
+      try {
+        userInfo.address = JSON.parse(value);
+      } catch (e) {
+        userInfo.address = { formatted: value };
+      }
+    } else {
+      userInfo[claim] = value;
+    }
+  });
+  return userInfo;
+};
@@ -0,0 +1,72 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+
+const RSASSA = 'RSASSA-PKCS1-v1_5';
+
+/**
+ * @returns {SubtleCrypto} the SubtleCrypto implementation if available
+ */
+export const getSubtleCrypto = (): SubtleCrypto => {
+  if (typeof crypto !== CognitoConstants.UNDEFINED && crypto && crypto.subtle) {
+    return crypto.subtle;
+  }
+  return undefined;
+};
+
+let nodeCrypto: any;
+
+/**
+ * Set the Node.js crypto module, used when WebCrypto is not global (before Node.js 19). It is set by
+ * the node entry point, so that the browser and React Native bundles do not depend on it.
+ * @param {object} module the Node.js crypto module
+ * @returns {void}
+ */
+export const setNodeCrypto = (module: any) => {
+  nodeCrypto = module;
+};
+
+/**
+ * @returns {object} the Node.js crypto module set by the node entry point, if any
+ */
+export const getNodeCrypto = (): any => nodeCrypto;
+
+/**
+ * Verifies a RS256 (RSASSA-PKCS1-v1_5 using SHA-256) signature with WebCrypto,
+ * or with the Node.js crypto module when WebCrypto is not available.
+ * @param {object} jwk the RSA public key as JSON Web Key
+ * @param {Uint8Array} data the signed data
+ * @param {Uint8Array} signature the signature
+ * @returns {Promise<boolean>} whether the signature is valid
+ */
+export const verifyRS256 = (jwk: object, data: Uint8Array, signature: Uint8Array): Promise<boolean> => {
+  const subtle = getSubtleCrypto();
+  if (subtle) {
+    const algorithm = { name: RSASSA, hash: { name: CognitoConstants.SHA256 } };
+    return Promise.resolve(subtle.importKey('jwk', jwk, algorithm, false, ['verify']))
+      .then(key => subtle.verify(RSASSA, key, signature, data));
+  }
+  const node = getNodeCrypto();
+  if (node && node.createPublicKey) {
+    return new Promise(resolve => {
+      const key = node.createPublicKey({ key: jwk, format: 'jwk' });
+      resolve(node.verify('sha256', data, key, signature));
+    });
+  }
+  return Promise.reject(new ConfigurationError(CognitoConstants.SIGNATUREUNSUPPORTEDERROR));
+};
@@ -0,0 +1,163 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { AuthStorage } from './AuthStorage';
+import StorageHelper from './StorageHelper';
+import IndexedDBStorage from './IndexedDBStorage';
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+import { getNodeCrypto } from './CryptoHelper';
+import { base64UrlEncode, base64UrlDecode, utf8ToBytes, bytesToUtf8 } from './Base64UrlHelper';
+
+export interface EncryptedStorageInterface {
+  storage?: AuthStorage;
+  key?: CryptoKey | Uint8Array;
+  keyStorage?: IndexedDBStorage;
+  keyName?: string;
+}
+
+/** @class */
+export default class EncryptedStorage implements AuthStorage {
+  storage: AuthStorage;
+  keyStorage: IndexedDBStorage;
+  keyName: string;
+  private key: CryptoKey | Uint8Array;
+  private cryptoKey: Promise<CryptoKey>;
+
+  /**
+   * Constructs a new EncryptedStorage object, encrypting the values of a storage with AES-GCM.
+   * It is asynchronous, a CognitoAuth object using it is created with CognitoAuth.create().
+   * @param {object} data Creation options.
+   * @param {object} data.storage The encrypted storage (default: localStorage, or memory when not available)
+   * @param {CryptoKey|Uint8Array} data.key An AES-GCM key, or its raw 128 or 256 bits, e.g. in Node.js;
+   *        by default a non-extractable key is generated and persisted in IndexedDB
+   * @param {IndexedDBStorage} data.keyStorage The storage of the generated key (default: new IndexedDBStorage())
+   * @param {string} data.keyName The name of the generated key (default: 'EncryptedStorage.key')
+   */
+  constructor(data: EncryptedStorageInterface = {}) {
+    this.storage = data.storage || new StorageHelper().getStorage();
+    this.key = data.key;
+    this.keyStorage = data.keyStorage || new IndexedDBStorage();
+    this.keyName = data.keyName || CognitoConstants.ENCRYPTIONKEYNAME;
+  }
+
+  /**
+   * This is used to get and decrypt a specific key from storage; an entry failing
+   * the decryption (tampered, or encrypted with another key) is removed
+   * @param {string} key - the key for the item
+   * @returns {Promise<string>} the data item
+   */
+  getItem(key: string): Promise<string | null> {
+    return Promise.all([this.getCryptoKey(), this.storage.getItem(key)]).then(([cryptoKey, value]) => {
+      if (value == null) {
+        return null;
+      }
+      return this.decrypt(cryptoKey, key, value).then(decrypted => decrypted, () =>
+        Promise.resolve(this.storage.removeItem(key)).then(() => null));
+    });
+  }
+
+  /**
+   * This is used to encrypt and set a specific item in storage
+   * @param {string} key - the key for the item
+   * @param {string} value - the value
+   * @returns {Promise<void>} resolved once the item is set
+   */
+  setItem(key: string, value: string): Promise<void> {
+    return this.getCryptoKey().then(cryptoKey => {
+      const iv = getWebCrypto().getRandomValues(new Uint8Array(CognitoConstants.AESGCMIVLENGTH));
+      const algorithm = { name: CognitoConstants.AESGCM, iv, additionalData: utf8ToBytes(key) };
+      return getWebCrypto().subtle.encrypt(algorithm, cryptoKey, utf8ToBytes(value)).then(encrypted =>
+        this.storage.setItem(key, `${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(encrypted))}`));
+    }).then(() => undefined);
+  }
+
+  /**
+   * This is used to remove an item from storage
+   * @param {string} key - the key being removed
+   * @returns {Promise<void>} resolved once the item is removed
+   */
+  removeItem(key: string): Promise<void> {
+    return Promise.resolve(this.storage.removeItem(key)).then(() => undefined);
+  }
+
+  /**
+   * This is used to list the keys of the encrypted storage
+   * @returns {Promise<array>} the keys, null when the storage cannot be enumerated
+   */
+  getAllKeys(): Promise<string[] | null> {
+    return Promise.resolve(typeof this.storage.getAllKeys === 'function' ? this.storage.getAllKeys() : null);
+  }
+
+  /**
+   * The value is bound to its key as additional data, an entry copied under another key fails.
+   * @param {CryptoKey} cryptoKey the AES-GCM key
+   * @param {string} key the key of the item
+   * @param {string} value the encrypted value
+   * @returns {Promise<string>} the decrypted value, rejected when the authentication fails
+   */
+  private decrypt(cryptoKey: CryptoKey, key: string, value: string): Promise<string> {
+    return new Promise<ArrayBuffer>(resolve => {
+      const parts = value.split('.');
+      if (parts.length !== 2) {
+        throw new Error(CognitoConstants.ENCRYPTEDVALUEERROR);
+      }
+      const algorithm = { name: CognitoConstants.AESGCM, iv: base64UrlDecode(parts[0]), additionalData: utf8ToBytes(key) };
+      resolve(getWebCrypto().subtle.decrypt(algorithm, cryptoKey, base64UrlDecode(parts[1])));
+    }).then(decrypted => bytesToUtf8(new Uint8Array(decrypted)));
+  }
+
+  /**
+   * The key is resolved once: imported from the given raw key, or loaded from IndexedDB,
+   * where a non-extractable key is generated on the first use.
+   * @returns {Promise<CryptoKey>} the AES-GCM key
+   */
+  private getCryptoKey(): Promise<CryptoKey> {
+    if (!this.cryptoKey) {
+      this.cryptoKey = new Promise<CryptoKey>(resolve => {
+        const subtle = getWebCrypto().subtle;
+        const usages: KeyUsage[] = ['encrypt', 'decrypt'];
+        if (ArrayBuffer.isView(this.key)) {
+          resolve(subtle.importKey('raw', this.key, CognitoConstants.AESGCM, false, usages));
+        } else if (this.key) {
+          resolve(this.key);
+        } else {
+          resolve(this.keyStorage.getValue<CryptoKey>(this.keyName).then(storedKey => storedKey ||
+            Promise.resolve(subtle.generateKey({ name: CognitoConstants.AESGCM, length: CognitoConstants.AESKEYLENGTH },
+              false, usages)).then(generatedKey => this.keyStorage.addValue(this.keyName, generatedKey as CryptoKey))));
+        }
+      });
+      this.cryptoKey.catch(() => {
+        this.cryptoKey = null;
+      });
+    }
+    return this.cryptoKey;
+  }
+}
+
+/**
+ * @returns {Crypto} the WebCrypto implementation, of the Node.js crypto module when not global
+ */
+function getWebCrypto(): Crypto {
+  if (typeof crypto !== CognitoConstants.UNDEFINED && crypto && crypto.subtle) {
+    return crypto;
+  }
+  const nodeCrypto = getNodeCrypto();
+  if (nodeCrypto && nodeCrypto.webcrypto && nodeCrypto.webcrypto.subtle) {
+    return nodeCrypto.webcrypto;
+  }
+  throw new ConfigurationError(CognitoConstants.ENCRYPTIONUNSUPPORTEDERROR);
+}
@@ -0,0 +1,34 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+
+/**
+ * Create the url of a Cognito domain endpoint.
+ * @param {string} appWebDomain the Cognito web hostname
+ * @param {string} path the endpoint path, e.g. oauth2/token
+ * @returns {string} the endpoint url
+ */
+export const getDomainUrl = (appWebDomain: string, path: string): string => CognitoConstants.DOMAIN_SCHEME.concat(
+  CognitoConstants.COLONDOUBLESLASH, appWebDomain, CognitoConstants.SLASH, path);
+
+/**
+ * @param {string} issuer the iss claim expected in the tokens, undefined for the user pool of the domain
+ * @returns {boolean} whether the tokens are issued by a Cognito user pool, with its token_use, client_id
+ * and username claims
+ */
+export const isUserPoolIssuer = (issuer: string): boolean =>
+  !issuer || CognitoConstants.USERPOOLISSUERREGEX.test(issuer);
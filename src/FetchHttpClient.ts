@@ -0,0 +1,47 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import { HttpClient, HttpRequest, HttpResponse } from './HttpClient';
+
+/** @class */
+export default class FetchHttpClient implements HttpClient {
+  private fetch: typeof fetch;
+
+  /**
+   * Constructs a new FetchHttpClient object
+   * @param {function} fetchFunction Optional: the fetch implementation, by default the global fetch
+   */
+  constructor(fetchFunction?: typeof fetch) {
+    this.fetch = fetchFunction || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Send the request with fetch.
+   * @param {object} request the http request
+   * @returns {Promise<object>} the http response
+   */
+  request({ method, url, headers, body, signal }: HttpRequest): Promise<HttpResponse> {
+    return this.fetch(url, { method, headers, body, signal }).then(
+      response => response.text().then(text => ({ status: response.status, body: text })),
+      e => {
+        if (signal && signal.aborted) {
+          throw new Error(CognitoConstants.HTTPTIMEOUTERROR);
+        }
+        throw e;
+      });
+  }
+}
@@ -0,0 +1,157 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import CognitoAuthError from './CognitoAuthError';
+import OAuthError from './OAuthError';
+import NetworkError from './NetworkError';
+import ConfigurationError from './ConfigurationError';
+import XhrHttpClient from './XhrHttpClient';
+import FetchHttpClient from './FetchHttpClient';
+
+export interface HttpRequest {
+  /**
+   * Required: The http method, GET or POST.
+   */
+  method: string;
+
+  /**
+   * Required: The request url.
+   */
+  url: string;
+
+  /**
+   * Optional: The request headers.
+   */
+  headers?: { [key: string]: string };
+
+  /**
+   * Optional: The encoded request body.
+   */
+  body?: string;
+
+  /**
+   * Optional: Signal aborting the request, e.g. on timeout.
+   */
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+  /**
+   * The http status code.
+   */
+  status: number;
+
+  /**
+   * The response body.
+   */
+  body: string;
+}
+
+/**
+ * Transport used for all the requests to the Cognito endpoints.
+ */
+export interface HttpClient {
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * Encode a body as application/x-www-form-urlencoded, skipping the undefined and null values.
+ * @param {object} body the body parameters
+ * @returns {string} the encoded body
+ */
+export const encodeFormBody = (body: { [key: string]: any }): string => Object.keys(body)
+  .filter(key => body[key] !== undefined && body[key] !== null)
+  .map(key => encodeURIComponent(key).concat(CognitoConstants.EQUALSIGN, encodeURIComponent(body[key])))
+  .join(CognitoConstants.AMPERSAND);
+
+/**
+ * Parse the body of an error response, e.g. { error: 'invalid_grant', error_description: '...' }.
+ * @param {string} body the response body
+ * @returns {object|string} the parsed JSON body, or the body itself if it is not JSON
+ */
+export const parseErrorBody = (body: string): any => {
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    return body;
+  }
+};
+
+/**
+ * Create a signal aborting a request after the timeout.
+ * @param {int} timeout the timeout in milliseconds
+ * @returns {object} the signal, undefined without timeout or AbortController, and a function clearing the timer
+ */
+export const createTimeoutSignal = (timeout?: number): { signal?: AbortSignal, clear: () => void } => {
+  if (!timeout || typeof AbortController === CognitoConstants.UNDEFINED) {
+    return { signal: undefined, clear: () => undefined };
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+};
+
+/**
+ * Send a request, aborted after the timeout.
+ * @param {HttpClient} httpClient the http client
+ * @param {object} request the http request, without signal
+ * @param {int} timeout Optional: the timeout in milliseconds
+ * @returns {Promise<string>} the response text, rejected with an OAuthError for the OAuth error responses,
+ * with a NetworkError if the request fails or the status is not 200
+ */
+export const sendHttpRequest = (httpClient: HttpClient, request: HttpRequest, timeout?: number): Promise<string> => {
+  const timeoutSignal = createTimeoutSignal(timeout);
+  return httpClient.request({ ...request, signal: timeoutSignal.signal }).then(response => {
+    timeoutSignal.clear();
+    if (response.status !== 200) {
+      const error = parseErrorBody(response.body);
+      if (error && error.error) {
+        throw new OAuthError({
+          code: error.error,
+          description: error.error_description,
+          status: response.status,
+          response: response.body,
+        });
+      }
+      throw new NetworkError(CognitoConstants.HTTPSTATUSERROR.concat(String(response.status)), {
+        status: response.status,
+        response: response.body,
+      });
+    }
+    return response.body;
+  }, e => {
+    timeoutSignal.clear();
+    throw e instanceof CognitoAuthError ? e : new NetworkError(e && e.message ? e.message : String(e), { response: e });
+  });
+};
+
+/**
+ * @returns {HttpClient} the XMLHttpRequest client in browsers and React Native, the fetch client
+ * in service workers, edge runtimes and Node.js 18 or later; otherwise a client rejecting the requests,
+ * the NodeHttpClient of the node entry point has to be passed as HttpClient
+ */
+export const getDefaultHttpClient = (): HttpClient => {
+  if (typeof XMLHttpRequest !== CognitoConstants.UNDEFINED) {
+    return new XhrHttpClient();
+  }
+  if (typeof fetch !== CognitoConstants.UNDEFINED) {
+    return new FetchHttpClient();
+  }
+  return {
+    request: () => Promise.reject(new ConfigurationError(CognitoConstants.HTTPCLIENTERROR)),
+  };
+};
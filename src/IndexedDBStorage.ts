@@ -0,0 +1,149 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { AuthStorage } from './AuthStorage';
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+
+export interface IndexedDBStorageInterface {
+  databaseName?: string;
+  storeName?: string;
+}
+
+/** @class */
+export default class IndexedDBStorage implements AuthStorage {
+  databaseName: string;
+  storeName: string;
+  private database: Promise<IDBDatabase>;
+
+  /**
+   * Constructs a new IndexedDBStorage object
+   * @param {object} data Creation options.
+   * @param {string} data.databaseName The database name (default: 'amazon-cognito-auth')
+   * @param {string} data.storeName The object store name (default: 'storage')
+   */
+  constructor(data: IndexedDBStorageInterface = {}) {
+    this.databaseName = data.databaseName || CognitoConstants.INDEXEDDBDATABASE;
+    this.storeName = data.storeName || CognitoConstants.INDEXEDDBSTORE;
+  }
+
+  /**
+   * This is used to get a specific key from storage
+   * @param {string} key - the key for the item
+   * @returns {Promise<string>} the data item
+   */
+  getItem(key: string): Promise<string | undefined> {
+    return this.getValue<string>(key);
+  }
+
+  /**
+   * This is used to get a value of any structured cloneable type, e.g. a CryptoKey
+   * @param {string} key - the key for the value
+   * @returns {Promise<any>} the value
+   */
+  getValue<T>(key: string): Promise<T | undefined> {
+    return this.request('readonly', store => store.get(key));
+  }
+
+  /**
+   * This is used to set a value unless the key already has one, in a single transaction
+   * so that concurrent pages end with the same value
+   * @param {string} key - the key for the value
+   * @param {any} value - the value, of any structured cloneable type
+   * @returns {Promise<any>} the value of the key, the existing one or the given one
+   */
+  addValue<T>(key: string, value: T): Promise<T> {
+    let result = value;
+    return this.request('readwrite', store => {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result === undefined) {
+          store.put(value, key);
+        } else {
+          result = request.result;
+        }
+      };
+      return request;
+    }).then(() => result);
+  }
+
+  /**
+   * This is used to set a specific item in storage
+   * @param {string} key - the key for the item
+   * @param {string} value - the value
+   * @returns {Promise<void>} resolved once the item is set
+   */
+  setItem(key: string, value: string): Promise<void> {
+    return this.request('readwrite', store => store.put(value, key)).then(() => undefined);
+  }
+
+  /**
+   * This is used to remove an item from storage
+   * @param {string} key - the key being removed
+   * @returns {Promise<void>} resolved once the item is removed
+   */
+  removeItem(key: string): Promise<void> {
+    return this.request('readwrite', store => store.delete(key)).then(() => undefined);
+  }
+
+  /**
+   * This is used to list the keys of the storage
+   * @returns {Promise<array>} the keys
+   */
+  getAllKeys(): Promise<string[]> {
+    return this.request('readonly', store => store.getAllKeys()).then(keys => keys.map(String));
+  }
+
+  /**
+   * Run a request on the object store, in its own transaction
+   * @param {string} mode the transaction mode
+   * @param {function} createRequest creates the request from the object store
+   * @returns {Promise<any>} the request result
+   */
+  private request<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return this.openDatabase().then(database => new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = createRequest(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || request.error);
+    }));
+  }
+
+  /**
+   * The database is opened once, creating the object store on the first use.
+   * @returns {Promise<IDBDatabase>} the database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === CognitoConstants.UNDEFINED) {
+          throw new ConfigurationError(CognitoConstants.INDEXEDDBUNSUPPORTEDERROR);
+        }
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
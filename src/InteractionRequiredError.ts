@@ -0,0 +1,32 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoAuthError, { CognitoAuthErrorDetails } from './CognitoAuthError';
+import CognitoConstants from './CognitoConstants';
+
+/** @class */
+export default class InteractionRequiredError extends CognitoAuthError {
+  /**
+   * Constructs a new InteractionRequiredError object, raised when the session cannot be renewed
+   * silently as the hosted UI session is gone, the user has to sign in again.
+   * @param {object=} details The OAuth error code and description returned, by default interaction_required.
+   */
+  constructor(details: CognitoAuthErrorDetails = {}) {
+    super(CognitoConstants.INTERACTIONREQUIREDERROR, { code: CognitoConstants.INTERACTIONREQUIRED, ...details });
+    this.name = 'InteractionRequiredError';
+    Object.setPrototypeOf(this, InteractionRequiredError.prototype);
+  }
+}
@@ -0,0 +1,5 @@
+import { AppState, Linking } from 'react-native';
+
+export const getLinking = () => Linking;
+
+export const getAppState = () => AppState;
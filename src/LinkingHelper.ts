@@ -0,0 +1,3 @@
+export const getLinking = (): any => undefined;
+
+export const getAppState = (): any => undefined;
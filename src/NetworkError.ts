@@ -0,0 +1,32 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoAuthError, { CognitoAuthErrorDetails } from './CognitoAuthError';
+
+/** @class */
+export default class NetworkError extends CognitoAuthError {
+  /**
+   * Constructs a new NetworkError object, raised when a request fails, e.g. on timeout,
+   * or when its response is not an OAuth error.
+   * @param {string} message The error message.
+   * @param {object=} details The HTTP status and the raw response.
+   */
+  constructor(message: string, details?: CognitoAuthErrorDetails) {
+    super(message, details);
+    this.name = 'NetworkError';
+    Object.setPrototypeOf(this, NetworkError.prototype);
+  }
+}
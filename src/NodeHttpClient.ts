@@ -0,0 +1,67 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import { HttpClient, HttpRequest, HttpResponse } from './HttpClient';
+
+/** @class */
+export default class NodeHttpClient implements HttpClient {
+
+  /**
+   * Send the request with the Node.js http or https module.
+   * @param {object} request the http request
+   * @returns {Promise<object>} the http response
+   */
+  request({ method, url, headers = {}, body, signal }: HttpRequest): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new Error(CognitoConstants.HTTPTIMEOUTERROR));
+        return;
+      }
+      const target = new URL(url);
+      const options = {
+        protocol: target.protocol,
+        hostname: target.hostname,
+        port: target.port,
+        path: target.pathname.concat(target.search),
+      };
+      const transport = target.protocol === 'http:' ? require('http') : require('https');
+      const requestHeaders: { [key: string]: any } = { ...headers };
+      if (body !== undefined) {
+        requestHeaders['Content-Length'] = Buffer.byteLength(body);
+      }
+      const req = transport.request({ ...options, method, headers: requestHeaders }, res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          text += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode, body: text }));
+      });
+      req.on('error', reject);
+      if (signal) {
+        signal.addEventListener('abort', () => {
+          req.abort();
+          reject(new Error(CognitoConstants.HTTPTIMEOUTERROR));
+        });
+      }
+      if (body !== undefined) {
+        req.write(body);
+      }
+      req.end();
+    });
+  }
+}
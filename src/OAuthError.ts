@@ -0,0 +1,31 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoAuthError, { CognitoAuthErrorDetails } from './CognitoAuthError';
+
+/** @class */
+export default class OAuthError extends CognitoAuthError {
+  /**
+   * Constructs a new OAuthError object, raised when the authorization or token endpoint returns
+   * an OAuth error, e.g. access_denied when the user cancelled or invalid_grant when the refresh token expired.
+   * @param {object} details The OAuth error code and description, the HTTP status and the raw response.
+   */
+  constructor(details: CognitoAuthErrorDetails) {
+    super(details.description || details.code, details);
+    this.name = 'OAuthError';
+    Object.setPrototypeOf(this, OAuthError.prototype);
+  }
+}
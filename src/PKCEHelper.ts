@@ -0,0 +1,57 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+import { base64UrlEncode, stringToBytes } from './Base64UrlHelper';
+import { getSubtleCrypto } from './CryptoHelper';
+
+export interface CodeChallenge {
+  /**
+   * The code_challenge sent to the authorization endpoint.
+   */
+  codeChallenge: string;
+
+  /**
+   * The code_challenge_method, S256 or plain.
+   */
+  codeChallengeMethod: string;
+}
+
+/**
+ * Creates the code challenge for a code verifier.
+ * S256 is used whenever SubtleCrypto is available, plain only if explicitly allowed.
+ * @param {string} codeVerifier the code verifier
+ * @param {boolean} allowPlain whether the plain method can be used without SubtleCrypto
+ * @returns {Promise<CodeChallenge>} the code challenge and its method
+ */
+export const createCodeChallenge = (codeVerifier: string, allowPlain: boolean = false): Promise<CodeChallenge> => {
+  const subtle = getSubtleCrypto();
+  if (!subtle) {
+    if (allowPlain) {
+      return Promise.resolve({
+        codeChallenge: codeVerifier,
+        codeChallengeMethod: CognitoConstants.CODECHALLENGEMETHODPLAIN,
+      });
+    }
+    return Promise.reject(new ConfigurationError(CognitoConstants.PKCEERROR));
+  }
+  // the verifier only contains unreserved ASCII characters
+  return Promise.resolve(subtle.digest(CognitoConstants.SHA256, stringToBytes(codeVerifier))).then(digest => ({
+    codeChallenge: base64UrlEncode(new Uint8Array(digest)),
+    codeChallengeMethod: CognitoConstants.CODECHALLENGEMETHODS256,
+  }));
+};
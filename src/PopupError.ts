@@ -0,0 +1,32 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoAuthError from './CognitoAuthError';
+
+/** @class */
+export default class PopupError extends CognitoAuthError {
+  /**
+   * Constructs a new PopupError object, raised when the sign-in popup is blocked,
+   * closed by the user or times out.
+   * @param {string} message The error message.
+   * @param {string} code 'popup_blocked', 'popup_closed' or 'popup_timeout'.
+   */
+  constructor(message: string, code: string) {
+    super(message, { code });
+    this.name = 'PopupError';
+    Object.setPrototypeOf(this, PopupError.prototype);
+  }
+}
@@ -0,0 +1,139 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import PopupError from './PopupError';
+
+export interface CognitoPopupOptions {
+  /**
+   * Optional: Number of milliseconds to wait for the sign-in, 5 minutes by default.
+   */
+  Timeout?: number;
+
+  /**
+   * Optional: The window features of the popup, e.g. its size.
+   */
+  PopupFeatures?: string;
+}
+
+interface PopupCallbackMessage {
+  type: string;
+  url: string;
+}
+
+/**
+ * Opens an empty popup, synchronously so that it is not blocked as opened without a user gesture.
+ * @param {string} features the window features
+ * @returns {Window} the popup, null when blocked
+ */
+export const openPopup = (features: string): Window =>
+  window.open('', CognitoConstants.POPUPNAME, features);
+
+/**
+ * Waits for the callback url posted by handlePopupCallback() from the popup or the silent renew iframe,
+ * only accepted from that window and from the origin of the redirect uri. The popup is closed once done.
+ * @param {Window} popup the sign-in popup, or the window of the iframe
+ * @param {string} origin the origin of the redirect uri
+ * @param {int} timeout the number of milliseconds to wait
+ * @param {function} createTimeoutError Optional: creates the error rejected on timeout
+ * @returns {Promise<string>} the callback url, rejected with a PopupError when closed or timed out
+ */
+export const waitForPopupCallback = (popup: Window, origin: string, timeout: number,
+  createTimeoutError: () => Error = () => new PopupError(CognitoConstants.POPUPTIMEOUTERROR, CognitoConstants.POPUPTIMEOUT)):
+  Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      clearInterval(closedPoll);
+      clearTimeout(timer);
+    };
+    const onMessage = (event: MessageEvent) => {
+      const data: PopupCallbackMessage = event.data;
+      if (event.origin !== origin || event.source !== popup || !data ||
+        data.type !== CognitoConstants.POPUPMESSAGETYPE || typeof data.url !== CognitoConstants.STRINGTYPE) {
+        return;
+      }
+      cleanup();
+      popup.close();
+      resolve(data.url);
+    };
+    const closedPoll = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new PopupError(CognitoConstants.POPUPCLOSEDERROR, CognitoConstants.POPUPCLOSED));
+      }
+    }, CognitoConstants.POPUPPOLLMILLISECONDS);
+    const timer = setTimeout(() => {
+      cleanup();
+      popup.close();
+      reject(createTimeoutError());
+    }, timeout);
+    window.addEventListener('message', onMessage);
+  });
+
+/**
+ * To call from the redirect page: in a sign-in popup, posts the callback url to the opening page,
+ * then closes the popup; in a silent renew iframe, posts it to the parent page. The url is only
+ * delivered to a page of the same origin.
+ * @param {string} url Optional: the callback url, by default the current url
+ * @returns {boolean} whether the page is a sign-in popup or a silent renew iframe,
+ *          otherwise the callback is not handled
+ */
+export const handlePopupCallback = (url: string = window.location.href): boolean => {
+  const message: PopupCallbackMessage = { type: CognitoConstants.POPUPMESSAGETYPE, url };
+  if (window.name === CognitoConstants.SILENTRENEWNAME && window.parent && window.parent !== window) {
+    window.parent.postMessage(message, window.location.origin);
+    return true;
+  }
+  const opener = window.opener;
+  if (!opener || opener === window || window.name !== CognitoConstants.POPUPNAME) {
+    return false;
+  }
+  opener.postMessage(message, window.location.origin);
+  window.close();
+  return true;
+};
+
+/**
+ * Loads a url in a hidden iframe, removed once the returned function is called.
+ * @param {string} url the url
+ * @returns {object} the iframe window and the function removing the iframe
+ */
+export const openHiddenIframe = (url: string): { frame: Window, remove: () => void } => {
+  const iframe = document.createElement('iframe');
+  iframe.name = CognitoConstants.SILENTRENEWNAME;
+  iframe.style.display = 'none';
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.src = url;
+  document.body.appendChild(iframe);
+  return {
+    frame: iframe.contentWindow,
+    remove: () => {
+      if (iframe.parentNode) {
+        iframe.parentNode.removeChild(iframe);
+      }
+    },
+  };
+};
+
+/**
+ * @param {string} url an absolute url
+ * @returns {string} the origin of the url
+ */
+export const getOrigin = (url: string): string => {
+  const match = url.match(CognitoConstants.ORIGINREGEX);
+  return match ? match[0].toLowerCase() : undefined;
+};
@@ -0,0 +1,44 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { NativeModules } from 'react-native';
+import { Buffer } from 'buffer';
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+
+declare var global: any;
+
+/**
+ * Fills the array with cryptographically secure random values, using the crypto polyfill
+ * (e.g. react-native-get-random-values) when installed, or the native random modules.
+ * @param {Uint8Array} array the array to fill
+ * @returns {Uint8Array} the filled array
+ */
+export const getRandomValues = (array: Uint8Array): Uint8Array => {
+  if (global.crypto && typeof global.crypto.getRandomValues === 'function') {
+    return global.crypto.getRandomValues(array);
+  }
+  let base64;
+  if (NativeModules.RNGetRandomValues) {
+    base64 = NativeModules.RNGetRandomValues.getRandomBase64(array.length);
+  } else if (NativeModules.ExpoRandom) {
+    base64 = NativeModules.ExpoRandom.getRandomBase64String(array.length);
+  } else {
+    throw new ConfigurationError(CognitoConstants.RANDOMERROR);
+  }
+  array.set(Buffer.from(base64, 'base64'));
+  return array;
+};
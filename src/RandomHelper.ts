@@ -0,0 +1,36 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import ConfigurationError from './ConfigurationError';
+import { getNodeCrypto } from './CryptoHelper';
+
+/**
+ * Fills the array with cryptographically secure random values, with WebCrypto
+ * or with the Node.js crypto module when WebCrypto is not available.
+ * @param {Uint8Array} array the array to fill
+ * @returns {Uint8Array} the filled array
+ */
+export const getRandomValues = (array: Uint8Array): Uint8Array => {
+  if (typeof crypto !== CognitoConstants.UNDEFINED && crypto && typeof crypto.getRandomValues === 'function') {
+    return crypto.getRandomValues(array);
+  }
+  const nodeCrypto = getNodeCrypto();
+  if (nodeCrypto && typeof nodeCrypto.randomFillSync === 'function') {
+    return nodeCrypto.randomFillSync(array);
+  }
+  throw new ConfigurationError(CognitoConstants.RANDOMERROR);
+};
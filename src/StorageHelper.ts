@@ -17,7 +17,7 @@
 let dataMemory = {};
 
 /** @class */
-class MemoryStorage {
+export class MemoryStorage {
 
   static key(index: number): string | null {
      return null;
@@ -0,0 +1,119 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import { getRandomValues } from './RandomHelper';
+import { base64UrlEncode } from './Base64UrlHelper';
+import { SyncAuthStorage } from './AuthStorage';
+
+interface TabLease {
+  owner: string;
+  expiresAt: number;
+}
+
+/**
+ * Runs a callback while holding a lock shared by the tabs of the browser: with the Web Locks API,
+ * or else with a lease written in the storage, renewed while the callback runs
+ * and taken over once expired if its tab was closed.
+ * @param {string} name the lock name
+ * @param {object} storage the synchronous storage of the lease, shared by the tabs
+ * @param {function} callback the critical section
+ * @returns {Promise<any>} the result of the callback
+ */
+export const withTabLock = <T>(name: string, storage: SyncAuthStorage,
+  callback: () => Promise<T>): Promise<T> => {
+  const locks = typeof navigator !== CognitoConstants.UNDEFINED ? (navigator as any).locks : undefined;
+  if (locks && typeof locks.request === 'function') {
+    return Promise.resolve(locks.request(name, () => callback()));
+  }
+  const owner = base64UrlEncode(getRandomValues(new Uint8Array(16)));
+  let renewal: any;
+  const release = () => {
+    clearInterval(renewal);
+    const lease = getLease(storage, name);
+    if (lease && lease.owner === owner) {
+      storage.removeItem(name);
+    }
+  };
+  return acquireLease(storage, name, owner).then(() => {
+    renewal = setInterval(() => renewLease(storage, name, owner), CognitoConstants.TABLOCKRENEWMILLISECONDS);
+    return callback();
+  }).then(result => {
+    release();
+    return result;
+  }, error => {
+    release();
+    throw error;
+  });
+};
+
+/**
+ * Two tabs may write the lease at the same time, the last write wins:
+ * the lease is read again after a delay to confirm it was acquired.
+ * @param {object} storage the storage of the lease
+ * @param {string} name the lock name
+ * @param {string} owner the id of the acquiring tab
+ * @returns {Promise<void>} resolved once the lease is acquired
+ */
+const acquireLease = (storage: SyncAuthStorage, name: string, owner: string): Promise<void> => new Promise<void>(resolve => {
+  const attempt = () => {
+    const lease = getLease(storage, name);
+    if (lease && lease.expiresAt > Date.now()) {
+      setTimeout(attempt, CognitoConstants.TABLOCKRETRYMILLISECONDS);
+      return;
+    }
+    const acquired: TabLease = { owner, expiresAt: Date.now() + CognitoConstants.TABLOCKLEASEMILLISECONDS };
+    storage.setItem(name, JSON.stringify(acquired));
+    setTimeout(() => {
+      const confirmed = getLease(storage, name);
+      if (confirmed && confirmed.owner === owner) {
+        resolve();
+      } else {
+        attempt();
+      }
+    }, CognitoConstants.TABLOCKRETRYMILLISECONDS);
+  };
+  attempt();
+});
+
+/**
+ * Extend the lease held by the tab, so that a callback running longer than TABLOCKLEASEMILLISECONDS
+ * is not taken over by another tab.
+ * @param {object} storage the storage of the lease
+ * @param {string} name the lock name
+ * @param {string} owner the id of the holding tab
+ * @returns {void}
+ */
+const renewLease = (storage: SyncAuthStorage, name: string, owner: string) => {
+  const lease = getLease(storage, name);
+  if (lease && lease.owner === owner) {
+    const renewed: TabLease = { owner, expiresAt: Date.now() + CognitoConstants.TABLOCKLEASEMILLISECONDS };
+    storage.setItem(name, JSON.stringify(renewed));
+  }
+};
+
+/**
+ * @param {object} storage the storage of the lease
+ * @param {string} name the lock name
+ * @returns {object} the current lease, if any
+ */
+const getLease = (storage: SyncAuthStorage, name: string): TabLease => {
+  try {
+    return JSON.parse(storage.getItem(name)) || undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
@@ -0,0 +1,88 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import CognitoConstants from './CognitoConstants';
+import { HttpClient, HttpRequest, HttpResponse } from './HttpClient';
+
+declare var XDomainRequest: any;
+
+/** @class */
+export default class XhrHttpClient implements HttpClient {
+
+  /**
+   * Send the request with XMLHttpRequest, or XDomainRequest in IE.
+   * @param {object} request the http request
+   * @returns {Promise<object>} the http response
+   */
+  request({ method, url, headers = {}, body, signal }: HttpRequest): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+      const xhr = this.createCORSRequest(method, url);
+      if (!xhr) {
+        reject(new Error(CognitoConstants.HTTPUNSUPPORTEDERROR));
+        return;
+      }
+      if (signal) {
+        if (signal.aborted) {
+          reject(new Error(CognitoConstants.HTTPTIMEOUTERROR));
+          return;
+        }
+        signal.addEventListener('abort', () => {
+          // abort() fires readystatechange synchronously, with the status 0
+          xhr.onreadystatechange = null;
+          xhr.abort();
+          reject(new Error(CognitoConstants.HTTPTIMEOUTERROR));
+        });
+      }
+      // set header
+      for (let key in headers) {
+        if (xhr.setRequestHeader) {
+          xhr.setRequestHeader(key, headers[key]);
+        }
+      }
+      xhr.onreadystatechange = function addressState() {
+        if (xhr.readyState === 4) {
+          resolve({ status: xhr.status, body: xhr.responseText });
+        }
+      };
+      xhr.send(body);
+    });
+  }
+
+  /**
+   * Create the XHR object
+   * @param {string} method which method to call
+   * @param {string} url the url string
+   * @returns {object} xhr
+   */
+  createCORSRequest(method: string, url: string) {
+    if (typeof XMLHttpRequest === CognitoConstants.UNDEFINED) {
+      return null;
+    }
+    let xhr = new XMLHttpRequest();
+    if (CognitoConstants.WITHCREDENTIALS in xhr) {
+      // XHR for Chrome/Firefox/Opera/Safari.
+      xhr.open(method, url, true);
+    } else if (typeof XDomainRequest !== CognitoConstants.UNDEFINED) {
+      // XDomainRequest for IE.
+      xhr = new XDomainRequest();
+      xhr.open(method, url);
+    } else {
+      // CORS not supported.
+      xhr = null;
+    }
+    return xhr;
+  }
+}
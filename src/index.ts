@@ -36,11 +36,36 @@
   
 
 export { default as CognitoToken } from './CognitoToken';
+export { default as CognitoIdToken } from './CognitoIdToken';
+export { default as CognitoAccessToken } from './CognitoAccessToken';
 export { default as CognitoRefreshToken } from './CognitoRefreshToken';
 export { default as CognitoTokenScopes } from './CognitoTokenScopes';
 export { default as CognitoAuth } from './CognitoAuth';
 export { default as CognitoAuthSession } from './CognitoAuthSession';
+export { parseScope } from './AuthorizationHelper';
 export { default as DateHelper } from './DateHelper';
 export { default as StorageHelper } from './StorageHelper';
 export { default as CookieStorage } from './CookieStorage';
+export { default as AuthStorageCache } from './AuthStorageCache';
+export { default as AsyncStorageAdapter } from './AsyncStorageAdapter';
+export { default as IndexedDBStorage } from './IndexedDBStorage';
+export { default as EncryptedStorage } from './EncryptedStorage';
 export { default as CognitoConstants } from './CognitoConstants';
+export { default as StateMismatchError } from './StateMismatchError';
+export { handlePopupCallback } from './PopupHelper';
+export { default as CognitoNativeSignIn } from './CognitoNativeSignIn';
+export { default as CognitoJwtVerifier } from './CognitoJwtVerifier';
+export { default as CognitoRefreshScheduler } from './CognitoRefreshScheduler';
+export { default as CognitoTabSync } from './CognitoTabSync';
+export { default as CognitoAuthEventEmitter } from './CognitoAuthEventEmitter';
+export { default as XhrHttpClient } from './XhrHttpClient';
+export { default as FetchHttpClient } from './FetchHttpClient';
+export { encodeFormBody } from './HttpClient';
+export { default as CognitoClientCredentials } from './CognitoClientCredentials';
+export { default as CognitoAuthError } from './CognitoAuthError';
+export { default as OAuthError } from './OAuthError';
+export { default as NetworkError } from './NetworkError';
+export { default as TokenValidationError } from './TokenValidationError';
+export { default as ConfigurationError } from './ConfigurationError';
+export { default as PopupError } from './PopupError';
+export { default as InteractionRequiredError } from './InteractionRequiredError';
@@ -0,0 +1,27 @@
+/*!
+ * Amazon Cognito Auth SDK for JavaScript
+ * Copyright 2017 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ * Licensed under the Apache License, Version 2.0 (the "License").
+ * You may not use this file except in compliance with the License.
+ * A copy of the License is located at
+ *
+ *         http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file.
+ * This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES
+ * OR CONDITIONS OF ANY KIND, either express or implied. See the
+ * License for the specific language governing permissions
+ * and limitations under the License.
+ */
+/**
+ * The Node.js entry point: the browser and React Native entry point, and the clients
+ * depending on the Node.js built-in modules, which the bundlers cannot resolve.
+ */
+import * as crypto from 'crypto';
+import { setNodeCrypto } from './CryptoHelper';
+
+setNodeCrypto(crypto);
+
+export * from './index';
+export { default as NodeHttpClient } from './NodeHttpClient';